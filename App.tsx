@@ -1,12 +1,48 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Recipe, User } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Recipe, User, IngredientInfo, IngredientPrice, PantryItem, PlannedBake, BakeLogEntry, RecipeSyncState } from './types';
 import { Header } from './components/Header';
 import { RecipeListItem } from './components/RecipeListItem';
 import { RecipeView } from './components/RecipeView';
 import { RecipeImporter } from './components/RecipeImporter';
+import { IngredientCatalog } from './components/IngredientCatalog';
+import { ExportMenu } from './components/ExportMenu';
+import { LibraryFilterBar } from './components/LibraryFilterBar';
+import { CollectionSidebar } from './components/CollectionSidebar';
+import { RecipeComparison } from './components/RecipeComparison';
+import { PantryManager } from './components/PantryManager';
 import { standardRecipes } from './data/standardRecipes';
+import { DEFAULT_CURRENCY } from './constants';
+import { setCustomIngredients } from './services/ingredientCatalog';
+import { addRevision, createDerivedRecipe } from './services/recipeHistory';
+import { getEntriesForRecipe } from './services/bakeJournal';
+import { deductFromPantry } from './services/pantry';
+import { importRecipesFromFile } from './services/recipeExport';
+import { LibraryFilters, DEFAULT_LIBRARY_FILTERS, filterAndSortRecipes, getLibraryFlourTypes } from './services/recipeLibrary';
+import { getCollectionNames, removeCollectionFromRecipes } from './services/recipeOrganization';
+import { createRecipeRepository, LoadResult } from './services/recipeRepository';
+import { createDefaultBackend } from './services/storageBackends';
+import { isSyncConfigured, syncRecipes, markRecipeDeleted, SyncOfflineError, SyncAuthError } from './services/syncService';
+import { AuthSession, getAuthConfig, signIn, restoreSession, signOut } from './services/auth';
+import { GUEST_LIBRARY_ID, planGuestMerge, mergeGuestBakeLog, isGuestMergeDeclined, declineGuestMerge } from './services/guestLibrary';
+import { clearDraft, moveDraft } from './services/recipeDrafts';
 
-type View = 'library' | 'recipe' | 'importer';
+type View = 'library' | 'recipe' | 'importer' | 'ingredients' | 'compare' | 'pantry';
+type SyncStatus = 'idle' | 'syncing' | 'synced' | 'offline' | 'signInExpired' | 'error';
+
+// How long to wait after a change before syncing, and how often to check for changes from other devices.
+const SYNC_DEBOUNCE_MS = 2000;
+const SYNC_INTERVAL_MS = 60000;
+// The longest delay setTimeout supports; longer delays fire at once.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+    idle: '',
+    syncing: 'Syncing…',
+    synced: 'Synced',
+    offline: 'Offline – changes will sync later',
+    signInExpired: 'Sign out and in again to resume syncing',
+    error: 'Sync failed – will retry',
+};
 
 // HACK: Define the google object from the GSI script
 declare const google: any;
@@ -15,161 +51,598 @@ const App: React.FC = () => {
     const [view, setView] = useState<View>('library');
     const [recipes, setRecipes] = useState<Recipe[]>([...standardRecipes]);
     const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
-    const [user, setUser] = useState<User | null>(null);
-
-    const handleCredentialResponse = useCallback((response: any) => {
-        // Decode the JWT token to get user info
-        const token = response.credential;
-        const payload = JSON.parse(atob(token.split('.')[1]));
-        const currentUser: User = {
-            id: payload.sub,
-            name: payload.name,
-            email: payload.email,
-            picture: payload.picture,
-        };
-        setUser(currentUser);
-        // Hide the button after login
-        const buttonDiv = document.getElementById('google-signin-button');
-        if (buttonDiv) buttonDiv.hidden = true;
+    const [session, setSession] = useState<AuthSession | null>(() => restoreSession());
+    const user: User | null = session?.user ?? null;
+    const [userIngredients, setUserIngredients] = useState<IngredientInfo[]>([]);
+    const [prices, setPrices] = useState<IngredientPrice[]>([]);
+    const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+    const [pantry, setPantry] = useState<PantryItem[]>([]);
+    const [plannedBakes, setPlannedBakes] = useState<PlannedBake[]>([]);
+    const [bakeLog, setBakeLog] = useState<BakeLogEntry[]>([]);
+    const [savedCollections, setSavedCollections] = useState<string[]>([]);
+    const [syncStates, setSyncStates] = useState<RecipeSyncState[]>([]);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+    // Kept here rather than in the library view so the search and filters survive opening a recipe.
+    const [libraryFilters, setLibraryFilters] = useState<LibraryFilters>(DEFAULT_LIBRARY_FILTERS);
+    // The recipes picked for comparison, in the order they were picked, or null outside compare mode.
+    const [compareIds, setCompareIds] = useState<string[] | null>(null);
+
+    const visibleRecipes = useMemo(() => filterAndSortRecipes(recipes, libraryFilters), [recipes, libraryFilters, userIngredients]);
+    const libraryFlourTypes = useMemo(() => getLibraryFlourTypes(recipes), [recipes, userIngredients]);
+    const collections = useMemo(() => getCollectionNames(savedCollections, recipes), [savedCollections, recipes]);
+    const comparedRecipes = useMemo(
+        () => (compareIds ?? []).map(id => recipes.find(r => r.id === id)).filter((r): r is Recipe => !!r),
+        [compareIds, recipes]
+    );
+
+    const applyUserIngredients = useCallback((ingredients: IngredientInfo[]) => {
+        // Register the catalog with the lookup module before rendering, so calculations see the new entries.
+        setCustomIngredients(ingredients);
+        setUserIngredients(ingredients);
+    }, []);
+
+    const handleCredentialResponse = useCallback(async (response: any) => {
+        try {
+            setSession(await signIn(response.credential));
+        } catch (err) {
+            console.error('Sign-in failed:', err);
+            alert(err instanceof Error ? err.message : 'Sign-in failed. Please try again.');
+        }
     }, []);
     
     const handleLogout = useCallback(() => {
-        setUser(null);
-        google.accounts.id.disableAutoSelect();
-        // Show the button again after logout
-        const buttonDiv = document.getElementById('google-signin-button');
-        if (buttonDiv) buttonDiv.hidden = false;
+        signOut();
+        setSession(null);
+        if (typeof google !== 'undefined') google.accounts.id.disableAutoSelect();
     }, []);
 
+    useEffect(() => {
+        // End the session when it expires, waiting in steps if that is further off than setTimeout allows.
+        if (!session) return;
+        let timer: ReturnType<typeof setTimeout>;
+        const schedule = () => {
+            const remaining = Math.max(0, session.expiresAt - Date.now());
+            timer = setTimeout(remaining > MAX_TIMER_DELAY_MS ? schedule : () => {
+                alert('Your session has expired. Please sign in again.');
+                handleLogout();
+            }, Math.min(remaining, MAX_TIMER_DELAY_MS));
+        };
+        schedule();
+        return () => clearTimeout(timer);
+    }, [session, handleLogout]);
+
     useEffect(() => {
         // Initialize Google Sign-In
-        if (typeof google !== 'undefined') {
-            google.accounts.id.initialize({
-                // IMPORTANT: Replace with your actual Google Client ID from Google Cloud Console
-                client_id: 'YOUR_GOOGLE_CLIENT_ID.apps.googleusercontent.com',
-                callback: handleCredentialResponse,
-                // Use 'popup' ux_mode to avoid FedCM issues that can cause errors like "NotAllowedError".
-                // This ensures a more reliable sign-in flow across different browser environments.
-                ux_mode: 'popup',
-            });
-            google.accounts.id.renderButton(
-                document.getElementById('google-signin-button'),
-                { theme: 'outline', size: 'large' }
-            );
-            // We remove google.accounts.id.prompt() which shows the One Tap dialog automatically.
-            // The automatic prompt is often the source of FedCM errors in development or iframe environments.
-            // Users will now click the button to sign in.
+        const { clientId } = getAuthConfig();
+        if (typeof google === 'undefined') return;
+        if (!clientId) {
+            console.warn("Sign-in is disabled. Set GOOGLE_CLIENT_ID in .env.local to your Google OAuth client ID.");
+            return;
         }
+        google.accounts.id.initialize({
+            client_id: clientId,
+            callback: handleCredentialResponse,
+            // Lets a returning user's expired ID token be renewed without a click (see syncLibrary).
+            auto_select: true,
+            // Use 'popup' ux_mode to avoid FedCM issues that can cause errors like "NotAllowedError".
+            // This ensures a more reliable sign-in flow across different browser environments.
+            ux_mode: 'popup',
+        });
+        // We remove google.accounts.id.prompt() which shows the One Tap dialog automatically.
+        // The automatic prompt is often the source of FedCM errors in development or iframe environments.
+        // Users will now click the button to sign in.
     }, [handleCredentialResponse]);
 
     useEffect(() => {
-        if (user) {
-            const savedRecipes = localStorage.getItem(`userRecipes-${user.id}`);
-            const userRecipes: Recipe[] = savedRecipes ? JSON.parse(savedRecipes) : [];
-            setRecipes([...standardRecipes, ...userRecipes]);
-        } else {
-            // When user logs out, only show standard recipes
-            setRecipes([...standardRecipes]);
-        }
+        // The header only renders the button container while signed out, so render the button each time it appears.
+        const buttonDiv = document.getElementById('google-signin-button');
+        if (user || !buttonDiv || typeof google === 'undefined' || !getAuthConfig().clientId) return;
+        google.accounts.id.renderButton(buttonDiv, { theme: 'outline', size: 'large' });
     }, [user]);
 
-    const saveUserRecipes = useCallback((userRecipes: Recipe[], currentUser: User | null) => {
-        if (!currentUser) return;
-        localStorage.setItem(`userRecipes-${currentUser.id}`, JSON.stringify(userRecipes));
+    // Each signed-in user's data lives in its own repository. Signed-out visitors share an anonymous guest library.
+    // Keyed on the user's id, as renewing a sign-in replaces the session without changing whose library is open.
+    const repository = useMemo(() => createRecipeRepository(user?.id ?? GUEST_LIBRARY_ID, createDefaultBackend()), [user?.id]);
+
+    // Offers to move what was saved while signed out, its recipes and bake journal, into the account that just signed in.
+    // Guests can't add collections, ingredients or prices, so there are none to move.
+    const mergeGuestData = useCallback(async (userId: string): Promise<void> => {
+        const guestRepository = createRecipeRepository(GUEST_LIBRARY_ID, createDefaultBackend());
+        const [{ records: drafts }, { records: guestEntries }] = await Promise.all([
+            guestRepository.loadRecipes(),
+            guestRepository.loadBakeLog(),
+        ]);
+        if ((drafts.length === 0 && guestEntries.length === 0) || isGuestMergeDeclined(userId, drafts, guestEntries)) return;
+        const saved = [
+            drafts.length > 0 && `${drafts.length} recipe(s)`,
+            guestEntries.length > 0 && `${guestEntries.length} logged bake(s)`,
+        ].filter(Boolean).join(' and ');
+        if (!window.confirm(`You saved ${saved} on this device before signing in. Add them to your account?\n\nCancel keeps them on this device, and you won't be asked again until you save more as a guest.`)) {
+            declineGuestMerge(userId, drafts, guestEntries);
+            return;
+        }
+
+        const [{ records: accountRecipes }, { records: accountEntries }] = await Promise.all([
+            repository.loadRecipes(),
+            repository.loadBakeLog(),
+        ]);
+        const { toAdd, duplicates, recipeIds } = planGuestMerge(drafts, accountRecipes);
+        await Promise.all([
+            repository.saveRecipes([...accountRecipes, ...toAdd.map(r => r.revisions?.length ? r : addRevision(undefined, r))]),
+            repository.saveBakeLog(mergeGuestBakeLog(accountEntries, guestEntries, recipeIds)),
+        ]);
+        await Promise.all([guestRepository.saveRecipes([]), guestRepository.saveBakeLog([])]);
+        // Unsaved edits follow their recipes; those of recipes the account already had are dropped with them.
+        for (const draft of drafts) {
+            const accountId = recipeIds.get(draft.id);
+            if (accountId && !duplicates.includes(draft)) {
+                moveDraft(GUEST_LIBRARY_ID, draft.id, userId, accountId);
+            } else {
+                clearDraft(GUEST_LIBRARY_ID, draft.id);
+            }
+        }
+
+        if (drafts.length > 0) {
+            const summary = `Added ${toAdd.length} recipe(s) to your account.`;
+            alert(duplicates.length > 0
+                ? `${summary} Skipped ${duplicates.length} already in your account: ${duplicates.map(r => r.name).join(', ')}.`
+                : summary);
+        }
+    }, [repository]);
+
+    useEffect(() => {
+        setLibraryFilters(prev => ({ ...prev, collection: '' }));
+        setSyncStatus('idle');
+
+        let isCancelled = false;
+        const loadUserData = async () => {
+            const errors: string[] = [];
+            if (user) {
+                await mergeGuestData(user.id).catch(err => {
+                    errors.push(err instanceof Error ? `Your guest data could not be added: ${err.message}` : 'Your guest data could not be added.');
+                });
+                if (isCancelled) return;
+            }
+            // Each document loads independently, so one that can't be read doesn't hide the others.
+            const loadOrReport = <T,>(load: Promise<LoadResult<T>>): Promise<LoadResult<T>> =>
+                load.catch(err => {
+                    errors.push(err instanceof Error ? err.message : 'Some saved data could not be loaded.');
+                    return { records: [], quarantined: [] };
+                });
+            const [
+                userRecipes, ingredients, savedPrices, savedCurrency, pantryItems, plans, entries, collectionNames, savedSyncStates,
+            ] = await Promise.all([
+                loadOrReport(repository.loadRecipes()),
+                loadOrReport(repository.loadIngredients()),
+                loadOrReport(repository.loadPrices()),
+                loadOrReport(repository.loadCurrency()),
+                loadOrReport(repository.loadPantry()),
+                loadOrReport(repository.loadPlannedBakes()),
+                loadOrReport(repository.loadBakeLog()),
+                loadOrReport(repository.loadCollections()),
+                loadOrReport(repository.loadSyncState()),
+            ]);
+            if (isCancelled) return;
+            applyUserIngredients(ingredients.records);
+            setPrices(savedPrices.records);
+            setCurrency(savedCurrency.records[0] ?? DEFAULT_CURRENCY);
+            setPantry(pantryItems.records);
+            setPlannedBakes(plans.records);
+            setBakeLog(entries.records);
+            setSavedCollections(collectionNames.records);
+            setSyncStates(savedSyncStates.records);
+            setRecipes([...standardRecipes, ...userRecipes.records]);
+
+            const quarantinedCount = [userRecipes, ingredients, savedPrices, savedCurrency, pantryItems, plans, entries, collectionNames, savedSyncStates]
+                .reduce((acc, result) => acc + result.quarantined.length, 0);
+            if (quarantinedCount > 0) {
+                errors.push(`${quarantinedCount} saved item(s) were damaged and have been set aside. The rest of your library loaded normally.`);
+            }
+            if (errors.length > 0) alert(errors.join('\n'));
+        };
+        loadUserData();
+        return () => { isCancelled = true; };
+    }, [user?.id, repository, applyUserIngredients, mergeGuestData]);
+
+    // Writes happen in the background; the UI has already been updated, so a failure is only reported.
+    const persist = useCallback((write: Promise<void>) => {
+        write.catch(err => alert(err instanceof Error ? `Your changes could not be saved: ${err.message}` : 'Your changes could not be saved.'));
     }, []);
 
+    const saveUserRecipes = useCallback((userRecipes: Recipe[]) => {
+        persist(repository.saveRecipes(userRecipes));
+    }, [repository, persist]);
+
+    const saveSyncStates = useCallback((states: RecipeSyncState[]) => {
+        setSyncStates(states);
+        persist(repository.saveSyncState(states));
+    }, [repository, persist]);
+
+    // The sync reads the latest state when it starts and again when it finishes, as edits may happen in between.
+    const latestRef = useRef({ recipes, syncStates });
+    latestRef.current = { recipes, syncStates };
+    const isSyncingRef = useRef(false);
+    // The ID token a silent renewal was last requested for, so a rejected token only prompts once.
+    const renewedTokenRef = useRef<string | null>(null);
+
+    const syncLibrary = useCallback(async () => {
+        if (!session || !isSyncConfigured() || isSyncingRef.current) return;
+        isSyncingRef.current = true;
+        setSyncStatus('syncing');
+        try {
+            const startingStates = latestRef.current.syncStates;
+            const result = await syncRecipes(session.idToken, latestRef.current.recipes.filter(r => !r.isStandard), startingStates);
+            const { recipes: latestRecipes, syncStates: latestStates } = latestRef.current;
+
+            // Deletions made during the sync are kept, and so are edits newer than the server's copy.
+            const deletedDuringSync = new Set(latestStates.filter(s => !startingStates.includes(s)).map(s => s.recipeId));
+            const upserts = new Map(result.upserts.filter(r => !deletedDuringSync.has(r.id)).map(r => [r.id, r]));
+            // Recipes deleted on another device take their unsaved drafts on this one with them.
+            result.removedIds.forEach(id => clearDraft(session.user.id, id));
+            if (upserts.size > 0 || result.removedIds.length > 0) {
+                const merged = latestRecipes
+                    .filter(r => !result.removedIds.includes(r.id))
+                    .map(r => {
+                        const incoming = upserts.get(r.id);
+                        upserts.delete(r.id);
+                        return incoming && (r.updatedAt ?? 0) <= (incoming.updatedAt ?? 0) ? incoming : r;
+                    });
+                const newRecipes = [...merged, ...upserts.values()];
+                setRecipes(newRecipes);
+                saveUserRecipes(newRecipes.filter(r => !r.isStandard));
+            }
+
+            const newStates = [...result.syncStates, ...latestStates.filter(s => deletedDuringSync.has(s.recipeId))];
+            if (JSON.stringify(newStates) !== JSON.stringify(latestStates)) {
+                saveSyncStates(newStates);
+            }
+            setSyncStatus('synced');
+        } catch (err) {
+            if (err instanceof SyncAuthError) {
+                // Google's ID tokens expire after an hour, long before the session, so ask Google Sign-In for a new one.
+                // A returning user gets it without a click, which starts a new session and retries the sync.
+                setSyncStatus('signInExpired');
+                if (renewedTokenRef.current !== session.idToken && typeof google !== 'undefined') {
+                    renewedTokenRef.current = session.idToken;
+                    google.accounts.id.prompt();
+                }
+                return;
+            }
+            setSyncStatus(err instanceof SyncOfflineError ? 'offline' : 'error');
+            if (!(err instanceof SyncOfflineError)) console.error('Sync failed:', err);
+        } finally {
+            isSyncingRef.current = false;
+        }
+    }, [session, repository, saveUserRecipes, saveSyncStates]);
+
+    useEffect(() => {
+        // Sync shortly after any local change, which includes the library loading.
+        const timer = setTimeout(syncLibrary, SYNC_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [recipes, syncStates, syncLibrary]);
+
+    useEffect(() => {
+        // Also pick up changes from other devices periodically and as soon as the connection returns.
+        const timer = setInterval(syncLibrary, SYNC_INTERVAL_MS);
+        window.addEventListener('online', syncLibrary);
+        return () => {
+            clearInterval(timer);
+            window.removeEventListener('online', syncLibrary);
+        };
+    }, [syncLibrary]);
+
+    const handleSaveIngredients = useCallback((ingredients: IngredientInfo[]) => {
+        applyUserIngredients(ingredients);
+        persist(repository.saveIngredients(ingredients));
+    }, [repository, applyUserIngredients, persist]);
+
+    const handleSavePrices = useCallback((newPrices: IngredientPrice[]) => {
+        setPrices(newPrices);
+        persist(repository.savePrices(newPrices));
+    }, [repository, persist]);
+
+    const handleCurrencyChange = useCallback((newCurrency: string) => {
+        setCurrency(newCurrency);
+        persist(repository.saveCurrency(newCurrency));
+    }, [repository, persist]);
+
+    const savePantry = useCallback((items: PantryItem[]) => {
+        setPantry(items);
+        persist(repository.savePantry(items));
+    }, [repository, persist]);
+
+    const savePlannedBakes = useCallback((plans: PlannedBake[]) => {
+        setPlannedBakes(plans);
+        persist(repository.savePlannedBakes(plans));
+    }, [repository, persist]);
+
+    const handlePlanBake = useCallback((recipeId: string, doughWeightGrams: number) => {
+        savePlannedBakes([...plannedBakes, { id: `plan-${Date.now()}`, recipeId, doughWeightGrams }]);
+        alert('Added to your planned bakes. See the shopping list in Pantry.');
+    }, [plannedBakes, savePlannedBakes]);
+
+    const handleConfirmBake = useCallback((scaledRecipe: Recipe) => {
+        savePantry(deductFromPantry(pantry, scaledRecipe));
+    }, [pantry, savePantry]);
+
+    const saveBakeLog = useCallback((entries: BakeLogEntry[]) => {
+        setBakeLog(entries);
+        persist(repository.saveBakeLog(entries));
+    }, [repository, persist]);
+
+    const handleAddBakeEntry = useCallback((entry: BakeLogEntry) => {
+        saveBakeLog([...bakeLog, entry]);
+    }, [bakeLog, saveBakeLog]);
+
+    const handleDeleteBakeEntry = useCallback((entryId: string) => {
+        saveBakeLog(bakeLog.filter(e => e.id !== entryId));
+    }, [bakeLog, saveBakeLog]);
+
+    const saveCollections = useCallback((names: string[]) => {
+        setSavedCollections(names);
+        persist(repository.saveCollections(names));
+    }, [repository, persist]);
+
+    const handleCreateCollection = useCallback((name: string) => {
+        if (!user) return;
+        saveCollections([...collections, name]);
+    }, [collections, user, saveCollections]);
+
+    const handleDeleteCollection = useCallback((name: string) => {
+        if (!user) return;
+        saveCollections(collections.filter(c => c !== name));
+        const now = Date.now();
+        const newRecipes = removeCollectionFromRecipes(recipes, name)
+            .map((r, index) => r === recipes[index] ? r : { ...r, updatedAt: now });
+        setRecipes(newRecipes);
+        saveUserRecipes(newRecipes.filter(r => !r.isStandard));
+        setLibraryFilters(prev => prev.collection === name ? { ...prev, collection: '' } : prev);
+    }, [collections, recipes, user, saveCollections, saveUserRecipes]);
+
     const handleSelectRecipe = (recipe: Recipe) => {
         setSelectedRecipe(recipe);
         setView('recipe');
     };
     
+    const handleToggleCompare = (recipe: Recipe) => {
+        setCompareIds(prev => prev && (prev.includes(recipe.id) ? prev.filter(id => id !== recipe.id) : [...prev, recipe.id]));
+    };
+
     const handleBackToLibrary = () => {
         setSelectedRecipe(null);
         setView('library');
     };
 
     const handleSaveRecipe = useCallback((updatedRecipe: Recipe) => {
-        if (!user) {
-            alert("Please log in to save changes.");
-            return;
-        }
-        const newRecipes = recipes.map(r => r.id === updatedRecipe.id ? updatedRecipe : r);
+        const newRecipes = recipes.map(r => r.id === updatedRecipe.id ? addRevision(r, { ...updatedRecipe, updatedAt: Date.now() }) : r);
         setRecipes(newRecipes);
 
         const userRecipes = newRecipes.filter(r => !r.isStandard);
-        saveUserRecipes(userRecipes, user);
-    }, [recipes, user, saveUserRecipes]);
+        saveUserRecipes(userRecipes);
+    }, [recipes, saveUserRecipes]);
     
     const handleDeleteRecipe = useCallback((recipeId: string) => {
-        if (!user) return;
-
         const newRecipes = recipes.filter(r => r.id !== recipeId);
         setRecipes(newRecipes);
         
         const userRecipes = newRecipes.filter(r => !r.isStandard);
-        saveUserRecipes(userRecipes, user);
+        saveUserRecipes(userRecipes);
+        saveBakeLog(bakeLog.filter(e => e.recipeId !== recipeId));
+        if (user && isSyncConfigured()) saveSyncStates(markRecipeDeleted(syncStates, recipeId));
 
         handleBackToLibrary();
-    }, [recipes, user, saveUserRecipes]);
+    }, [recipes, bakeLog, syncStates, user, saveUserRecipes, saveBakeLog, saveSyncStates]);
     
+    const handleSaveAsCopy = useCallback((parent: Recipe) => {
+        const copy = addRevision(undefined, createDerivedRecipe(parent));
+        const newRecipes = [...recipes, copy];
+        setRecipes(newRecipes);
+        saveUserRecipes(newRecipes.filter(r => !r.isStandard));
+
+        setSelectedRecipe(copy);
+    }, [recipes, saveUserRecipes]);
+
     const handleImportSuccess = (importedRecipeData: Omit<Recipe, 'id' | 'isStandard'>) => {
-        if (!user) {
-            alert("Please log in to import and save a new recipe.");
-            return;
-        }
-        const newRecipe: Recipe = {
+        const newRecipe: Recipe = addRevision(undefined, {
             ...importedRecipeData,
             id: `user-${Date.now()}`,
             isStandard: false,
-        };
+            updatedAt: Date.now(),
+        });
         const newRecipes = [...recipes, newRecipe];
         setRecipes(newRecipes);
         
         const userRecipes = newRecipes.filter(r => !r.isStandard);
-        saveUserRecipes(userRecipes, user);
+        saveUserRecipes(userRecipes);
         
         setSelectedRecipe(newRecipe);
         setView('recipe');
     };
 
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const { recipes: importedRecipes, skipped } = importRecipesFromFile(await file.text(), recipes);
+            const newRecipes = [
+                ...recipes,
+                ...importedRecipes
+                    .map(r => ({ ...r, updatedAt: Date.now() }))
+                    .map(r => r.revisions?.length ? r : addRevision(undefined, r)),
+            ];
+            setRecipes(newRecipes);
+            saveUserRecipes(newRecipes.filter(r => !r.isStandard));
+
+            const summary = `Imported ${importedRecipes.length} recipe(s).`;
+            alert(skipped.length > 0 ? `${summary} Skipped: ${skipped.join(', ')}.` : summary);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'The file could not be imported.');
+        }
+    };
+
     const renderContent = () => {
         switch (view) {
             case 'recipe':
                 return selectedRecipe && (
                     <RecipeView 
                         recipe={selectedRecipe} 
+                        libraryId={user?.id ?? GUEST_LIBRARY_ID}
+                        revisions={recipes.find(r => r.id === selectedRecipe.id)?.revisions ?? []}
+                        collections={collections}
+                        parentRecipe={selectedRecipe.derivedFrom ? recipes.find(r => r.id === selectedRecipe.derivedFrom) : undefined}
+                        bakeLog={getEntriesForRecipe(bakeLog, selectedRecipe.id)}
+                        prices={prices}
+                        currency={currency}
+                        pantry={user ? pantry : undefined}
+                        onPlanBake={handlePlanBake}
+                        onConfirmBake={handleConfirmBake}
+                        onAddBakeEntry={handleAddBakeEntry}
+                        onDeleteBakeEntry={handleDeleteBakeEntry}
                         onSave={handleSaveRecipe} 
                         onDelete={handleDeleteRecipe}
+                        onSaveAsCopy={handleSaveAsCopy}
+                        onOpenRecipe={handleSelectRecipe}
                         onBack={handleBackToLibrary}
                     />
                 );
             case 'importer':
                 return <RecipeImporter onImportSuccess={handleImportSuccess} onBack={handleBackToLibrary} />;
+            case 'compare':
+                return (
+                    <RecipeComparison
+                        recipes={comparedRecipes}
+                        onRemove={(recipeId) => setCompareIds(prev => prev && prev.filter(id => id !== recipeId))}
+                        onOpenRecipe={handleSelectRecipe}
+                        onBack={handleBackToLibrary}
+                    />
+                );
+            case 'pantry':
+                return (
+                    <PantryManager
+                        pantry={pantry}
+                        plannedBakes={plannedBakes}
+                        recipes={recipes}
+                        onSavePantry={savePantry}
+                        onSavePlannedBakes={savePlannedBakes}
+                        onOpenRecipe={handleSelectRecipe}
+                        onBack={handleBackToLibrary}
+                    />
+                );
+            case 'ingredients':
+                return (
+                    <IngredientCatalog
+                        ingredients={userIngredients}
+                        onSave={handleSaveIngredients}
+                        prices={prices}
+                        currency={currency}
+                        onSavePrices={handleSavePrices}
+                        onCurrencyChange={handleCurrencyChange}
+                        onBack={handleBackToLibrary}
+                    />
+                );
             case 'library':
             default:
                 return (
                     <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
                         <div className="flex justify-between items-center mb-6">
-                            <h2 className="text-3xl font-bold text-gray-800">Recipe Library</h2>
-                             {user && (
+                            <div>
+                                <h2 className="text-3xl font-bold text-gray-800">Recipe Library</h2>
+                                {syncStatus !== 'idle' && (
+                                    <p className={`text-sm ${syncStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}>{SYNC_STATUS_LABELS[syncStatus]}</p>
+                                )}
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                <button
+                                    onClick={() => setCompareIds(prev => prev ? null : [])}
+                                    className="px-4 py-2 bg-amber-100 text-amber-800 font-semibold rounded-md hover:bg-amber-200 transition-colors"
+                                >
+                                {compareIds ? 'Cancel Compare' : 'Compare'}
+                                </button>
+                                <ExportMenu recipes={recipes.filter(r => !r.isStandard)} baseName="bread-recipes" label="Export All" />
+                                <label className="px-4 py-2 bg-amber-100 text-amber-800 font-semibold rounded-md hover:bg-amber-200 transition-colors cursor-pointer">
+                                Import File
+                                    <input type="file" accept=".json,.jsonld,application/json,application/ld+json" onChange={handleImportFile} className="hidden" />
+                                </label>
+                                {user && (
+                                    <button
+                                        onClick={() => setView('ingredients')}
+                                        className="px-4 py-2 bg-amber-100 text-amber-800 font-semibold rounded-md hover:bg-amber-200 transition-colors"
+                                    >
+                                    My Ingredients
+                                    </button>
+                                )}
+                                {user && (
+                                    <button
+                                        onClick={() => setView('pantry')}
+                                        className="px-4 py-2 bg-amber-100 text-amber-800 font-semibold rounded-md hover:bg-amber-200 transition-colors"
+                                    >
+                                    Pantry
+                                    </button>
+                                )}
                                 <button 
                                     onClick={() => setView('importer')} 
                                     className="px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 transition-colors"
                                 >
-                                + Import Recipe (AI)
+                                + Import Recipe
                                 </button>
-                            )}
+                            </div>
                         </div>
                          {!user && (
                             <div className="bg-amber-100 border-l-4 border-amber-500 text-amber-700 p-4 mb-6" role="alert">
                                 <p className="font-bold">Welcome, Guest!</p>
-                                <p>Please sign in with Google to save your own recipes or import new ones.</p>
+                                <p>Recipes you save or import, and your bake journal, are kept on this device. Sign in with Google to add them to your account.</p>
+                            </div>
+                        )}
+                        {compareIds && (
+                            <div className="bg-white border border-amber-300 rounded-lg p-4 mb-6 flex flex-wrap justify-between items-center gap-4">
+                                <p className="text-gray-700">
+                                    Pick two or more recipes to compare. The first one you pick is the baseline.{' '}
+                                    <span className="font-semibold">{comparedRecipes.length} selected.</span>
+                                </p>
+                                <button
+                                    onClick={() => setView('compare')}
+                                    disabled={comparedRecipes.length < 2}
+                                    className="px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    Compare Selected
+                                </button>
                             </div>
                         )}
-                        <div className="flex flex-col gap-4">
-                            {recipes.map(recipe => (
-                                <RecipeListItem key={recipe.id} recipe={recipe} onSelect={() => handleSelectRecipe(recipe)} />
-                            ))}
+                        <div className="flex flex-col md:flex-row gap-6">
+                            <aside className="md:w-56 flex-shrink-0">
+                                <CollectionSidebar
+                                    recipes={recipes}
+                                    collections={collections}
+                                    selected={libraryFilters.collection}
+                                    canEdit={!!user}
+                                    onSelect={(collection) => setLibraryFilters(prev => ({ ...prev, collection }))}
+                                    onCreate={handleCreateCollection}
+                                    onDelete={handleDeleteCollection}
+                                />
+                            </aside>
+                            <div className="flex-grow min-w-0">
+                                <LibraryFilterBar
+                                    filters={libraryFilters}
+                                    flourTypes={libraryFlourTypes}
+                                    matchCount={visibleRecipes.length}
+                                    totalCount={recipes.length}
+                                    onChange={setLibraryFilters}
+                                />
+                                <div className="flex flex-col gap-4">
+                                    {visibleRecipes.map(recipe => (
+                                        <RecipeListItem
+                                            key={recipe.id}
+                                            recipe={recipe}
+                                            onSelect={() => compareIds ? handleToggleCompare(recipe) : handleSelectRecipe(recipe)}
+                                            isSelected={compareIds ? compareIds.includes(recipe.id) : undefined}
+                                        />
+                                    ))}
+                                    {visibleRecipes.length === 0 && (
+                                        <p className="text-center text-gray-500 py-8">No recipes match the current search and filters.</p>
+                                    )}
+                                </div>
+                            </div>
                         </div>
                     </div>
                 );
@@ -177,7 +650,7 @@ const App: React.FC = () => {
     };
     
     return (
-        <div className="min-h-screen bg-amber-50 text-gray-800">
+        <div className="min-h-screen bg-amber-50 text-gray-800 print:bg-white">
             <Header user={user} onLogout={handleLogout} />
             <main>
                 {renderContent()}
@@ -0,0 +1,234 @@
+/**
+ * @file A component that shows a recipe's bake journal and lets the baker record a new bake.
+ */
+
+import React, { useState } from 'react';
+import { Recipe, RecipeRevision, BakeLogEntry, IngredientPrice } from '../types';
+import { readPhotoAsDataUrl } from '../services/bakeJournal';
+import { formatDuration, toLocalInputValue } from '../services/dateTime';
+import { calculateBakeCost, formatMoney } from '../services/ingredientCosts';
+
+interface BakeJournalProps {
+  recipe: Recipe;
+  /** The recipe's revisions, so each bake is costed with the formula it was made from. */
+  revisions: RecipeRevision[];
+  entries: BakeLogEntry[];
+  prices: IngredientPrice[];
+  currency: string;
+  currentDoughWeightGrams: number;
+  onAddEntry: (entry: BakeLogEntry) => void;
+  onDeleteEntry: (entryId: string) => void;
+}
+
+const optionalNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+
+const inputClassName = 'mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900 font-normal';
+
+/**
+ * Lists past bakes of a recipe, most recent first, each costed at the ingredient prices of its day.
+ * A new entry starts from the dough weight currently shown in the recipe view.
+ */
+export const BakeJournal: React.FC<BakeJournalProps> = ({ recipe, revisions, entries, prices, currency, currentDoughWeightGrams, onAddEntry, onDeleteEntry }) => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [bakedAt, setBakedAt] = useState('');
+  const [doughWeight, setDoughWeight] = useState('');
+  const [roomTemperature, setRoomTemperature] = useState('');
+  const [doughTemperature, setDoughTemperature] = useState('');
+  const [bulkMinutes, setBulkMinutes] = useState('');
+  const [proofMinutes, setProofMinutes] = useState('');
+  const [ovenProfile, setOvenProfile] = useState('');
+  const [rating, setRating] = useState(3);
+  const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const openForm = () => {
+    setBakedAt(toLocalInputValue(new Date()));
+    setDoughWeight(currentDoughWeightGrams > 0 ? currentDoughWeightGrams.toFixed(0) : '');
+    setRoomTemperature('');
+    setDoughTemperature('');
+    setBulkMinutes('');
+    setProofMinutes('');
+    setOvenProfile('');
+    setRating(3);
+    setNotes('');
+    setPhotos([]);
+    setError(null);
+    setIsFormOpen(true);
+  };
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    try {
+      const dataUrls = await Promise.all(files.map(readPhotoAsDataUrl));
+      setPhotos(prev => [...prev, ...dataUrls]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the photo.');
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!bakedAt || !doughWeight) {
+      setError('Please enter the bake date and dough weight.');
+      return;
+    }
+    onAddEntry({
+      id: `bake-${Date.now()}`,
+      recipeId: recipe.id,
+      bakedAt: new Date(bakedAt).toISOString(),
+      doughWeightGrams: Math.max(0, Number(doughWeight)),
+      roomTemperatureC: optionalNumber(roomTemperature),
+      doughTemperatureC: optionalNumber(doughTemperature),
+      bulkMinutes: optionalNumber(bulkMinutes),
+      proofMinutes: optionalNumber(proofMinutes),
+      ovenProfile: ovenProfile.trim(),
+      rating,
+      notes: notes.trim(),
+      photos,
+    });
+    setIsFormOpen(false);
+  };
+
+  // Costs the bake at the prices in effect on the day, or returns null if none of its ingredients had a price then.
+  const getBakeCost = (entry: BakeLogEntry) => {
+    const cost = calculateBakeCost(recipe, revisions, entry.bakedAt, entry.doughWeightGrams, prices, currency);
+    return cost.lines.some(line => line.cost !== null) ? cost : null;
+  };
+
+  const handleDelete = (entry: BakeLogEntry) => {
+    if (window.confirm(`Delete the bake from ${new Date(entry.bakedAt).toLocaleString()}?`)) {
+      onDeleteEntry(entry.id);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-amber-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-bold text-amber-900">Bake Journal</h3>
+        {!isFormOpen && (
+          <button onClick={openForm} className="px-3 py-1.5 text-sm font-medium rounded-md text-amber-700 bg-amber-100 hover:bg-amber-200">
+            + Log a Bake
+          </button>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <div className="p-4 bg-amber-50 rounded-lg mb-4">
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md mb-4" role="alert">
+              <span>{error}</span>
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-sm font-semibold text-amber-900">
+              Baked at
+              <input type="datetime-local" value={bakedAt} onChange={(e) => setBakedAt(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="text-sm font-semibold text-amber-900">
+              Dough weight (g)
+              <input type="number" value={doughWeight} onChange={(e) => setDoughWeight(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="text-sm font-semibold text-amber-900">
+              Rating
+              <select value={rating} onChange={(e) => setRating(Number(e.target.value))} className={inputClassName}>
+                {[1, 2, 3, 4, 5].map(r => <option key={r} value={r}>{'★'.repeat(r)}</option>)}
+              </select>
+            </label>
+            <label className="text-sm font-semibold text-amber-900">
+              Room temp (°C)
+              <input type="number" value={roomTemperature} onChange={(e) => setRoomTemperature(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="text-sm font-semibold text-amber-900">
+              Dough temp (°C)
+              <input type="number" value={doughTemperature} onChange={(e) => setDoughTemperature(e.target.value)} className={inputClassName} />
+            </label>
+            <div />
+            <label className="text-sm font-semibold text-amber-900">
+              Bulk (minutes)
+              <input type="number" value={bulkMinutes} onChange={(e) => setBulkMinutes(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="text-sm font-semibold text-amber-900">
+              Proof (minutes)
+              <input type="number" value={proofMinutes} onChange={(e) => setProofMinutes(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="text-sm font-semibold text-amber-900">
+              Oven profile
+              <input type="text" value={ovenProfile} onChange={(e) => setOvenProfile(e.target.value)} placeholder="e.g., 250°C 20m steam, 230°C 25m" className={inputClassName} />
+            </label>
+            <label className="sm:col-span-3 text-sm font-semibold text-amber-900">
+              Notes
+              <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={inputClassName} />
+            </label>
+            <label className="sm:col-span-3 text-sm font-semibold text-amber-900">
+              Photos
+              <input type="file" accept="image/*" multiple onChange={handlePhotoChange} className="mt-1 block text-sm font-normal" />
+            </label>
+          </div>
+          {photos.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {photos.map((photo, index) => (
+                <img key={index} src={photo} alt={`Bake photo ${index + 1}`} className="w-20 h-20 object-cover rounded-md" />
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={() => setIsFormOpen(false)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200">
+              Cancel
+            </button>
+            <button onClick={handleSubmit} className="px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 transition-colors">
+              Save Bake
+            </button>
+          </div>
+        </div>
+      )}
+
+      {entries.length === 0 && !isFormOpen ? (
+        <p className="text-sm text-gray-600">No bakes logged yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map(entry => {
+            const cost = getBakeCost(entry);
+            return (
+              <li key={entry.id} className="p-4 border border-amber-200 rounded-lg">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-semibold text-gray-900">{new Date(entry.bakedAt).toLocaleString()}</p>
+                    <p className="text-amber-600" aria-label={`Rated ${entry.rating} out of 5`}>
+                      {'★'.repeat(entry.rating)}<span className="text-gray-300">{'★'.repeat(5 - entry.rating)}</span>
+                    </p>
+                  </div>
+                  <button onClick={() => handleDelete(entry)} className="text-sm text-red-600 hover:text-red-900">Delete</button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-1 mt-2 text-sm text-gray-700">
+                  <div><span className="font-semibold text-amber-800">Dough:</span> {entry.doughWeightGrams.toFixed(0)}g</div>
+                  {cost && (
+                    <div title={cost.unpricedIngredients.length > 0 ? `No price for: ${cost.unpricedIngredients.join(', ')}` : undefined}>
+                      <span className="font-semibold text-amber-800">Cost:</span> {formatMoney(cost.totalCost, currency)}
+                      {cost.unpricedIngredients.length > 0 && ' (partial)'}
+                    </div>
+                  )}
+                  {entry.roomTemperatureC !== undefined && <div><span className="font-semibold text-amber-800">Room:</span> {entry.roomTemperatureC}°C</div>}
+                  {entry.doughTemperatureC !== undefined && <div><span className="font-semibold text-amber-800">Dough temp:</span> {entry.doughTemperatureC}°C</div>}
+                  {entry.bulkMinutes !== undefined && <div><span className="font-semibold text-amber-800">Bulk:</span> {formatDuration(entry.bulkMinutes)}</div>}
+                  {entry.proofMinutes !== undefined && <div><span className="font-semibold text-amber-800">Proof:</span> {formatDuration(entry.proofMinutes)}</div>}
+                  {entry.ovenProfile && <div className="col-span-2 sm:col-span-3"><span className="font-semibold text-amber-800">Oven:</span> {entry.ovenProfile}</div>}
+                </div>
+                {entry.notes && <p className="mt-2 text-sm text-gray-800 whitespace-pre-line">{entry.notes}</p>}
+                {entry.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {entry.photos.map((photo, index) => (
+                      <a key={index} href={photo} target="_blank" rel="noreferrer">
+                        <img src={photo} alt={`Bake photo ${index + 1}`} className="w-24 h-24 object-cover rounded-md" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
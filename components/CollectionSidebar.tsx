@@ -0,0 +1,93 @@
+/**
+ * @file The library sidebar for browsing recipes by collection.
+ */
+
+import React, { useState } from 'react';
+import { Recipe } from '../types';
+import { countRecipesInCollection } from '../services/recipeOrganization';
+
+interface CollectionSidebarProps {
+  recipes: Recipe[];
+  collections: string[];
+  /** The selected collection, or '' for all recipes. */
+  selected: string;
+  /** Whether collections can be created and deleted (only signed-in users can save them). */
+  canEdit: boolean;
+  onSelect: (collection: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (name: string) => void;
+}
+
+const itemClassName = (isSelected: boolean) =>
+  `w-full flex justify-between items-center px-3 py-2 rounded-md text-left text-sm transition-colors ${isSelected ? 'bg-amber-600 text-white font-semibold' : 'text-gray-800 hover:bg-amber-100'}`;
+
+/**
+ * Lists "All recipes" and each collection with its recipe count. Signed-in users can add and delete collections.
+ */
+export const CollectionSidebar: React.FC<CollectionSidebarProps> = ({ recipes, collections, selected, canEdit, onSelect, onCreate, onDelete }) => {
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim().replace(/\s+/g, ' ');
+    if (!name) return;
+    if (collections.some(c => c.toLowerCase() === name.toLowerCase())) {
+      alert(`A collection named "${name}" already exists.`);
+      return;
+    }
+    onCreate(name);
+    setNewName('');
+  };
+
+  const handleDelete = (name: string) => {
+    if (window.confirm(`Delete the collection "${name}"? Its recipes will stay in your library.`)) {
+      onDelete(name);
+    }
+  };
+
+  return (
+    <nav className="bg-white rounded-lg shadow-sm border border-amber-200 p-3" aria-label="Collections">
+      <h3 className="px-3 pb-2 text-xs font-bold text-amber-800 uppercase tracking-wider">Collections</h3>
+      <ul className="flex flex-col gap-1">
+        <li>
+          <button onClick={() => onSelect('')} className={itemClassName(selected === '')}>
+            <span>All recipes</span>
+            <span>{recipes.length}</span>
+          </button>
+        </li>
+        {collections.map(name => (
+          <li key={name} className="group flex items-center gap-1">
+            <button onClick={() => onSelect(name)} className={itemClassName(selected === name)}>
+              <span className="truncate">{name}</span>
+              <span>{countRecipesInCollection(recipes, name)}</span>
+            </button>
+            {canEdit && (
+              <button
+                onClick={() => handleDelete(name)}
+                className="px-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Delete collection ${name}`}
+              >
+                &times;
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {canEdit && (
+        <form onSubmit={handleCreate} className="mt-3 flex gap-1">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection"
+            className="flex-grow min-w-0 px-2 py-1 text-sm border border-amber-300 rounded-md focus:ring-amber-500 focus:border-amber-500"
+            aria-label="New collection name"
+          />
+          <button type="submit" className="px-2 py-1 text-sm font-semibold text-amber-800 bg-amber-100 rounded-md hover:bg-amber-200">
+            Add
+          </button>
+        </form>
+      )}
+    </nav>
+  );
+};
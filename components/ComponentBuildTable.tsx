@@ -0,0 +1,134 @@
+/**
+ * @file The build table for one preferment or soaker of a multi-component recipe.
+ */
+
+import React, { useMemo } from 'react';
+import { Recipe, RecipeComponent, Ingredient, WeightUnit } from '../types';
+import { calculateDoughComposition, getComponentIngredientsInRecipe, getIngredientGrams } from '../services/recipeCalculations';
+import { getAllIngredients, getIngredientInfo } from '../services/ingredientCatalog';
+import { formatWeight } from '../services/unitConversion';
+
+interface ComponentBuildTableProps {
+  /** The recipe the component belongs to, at its current scaling. */
+  recipe: Recipe;
+  component: RecipeComponent;
+  displayUnit: WeightUnit;
+  isReadOnly: boolean;
+  onChange: (component: RecipeComponent) => void;
+  onRemove: () => void;
+}
+
+/**
+ * Edits a component's name, its share of the prefermented flour and its ingredients, and shows the weights
+ * to build it with. A preferment's percentages are relative to its own flour; a soaker's to the recipe's overall flour.
+ */
+export const ComponentBuildTable: React.FC<ComponentBuildTableProps> = ({ recipe, component, displayUnit, isReadOnly, onChange, onRemove }) => {
+  const isPreferment = component.kind === 'preferment';
+  const ingredientsInRecipe = useMemo(() => getComponentIngredientsInRecipe(recipe, component), [recipe, component]);
+  const totalGrams = ingredientsInRecipe.reduce((acc, ing) => acc + getIngredientGrams(ing, recipe.totalFlourGrams), 0);
+  const hydration = useMemo(
+    () => calculateDoughComposition({ ...recipe, ingredients: component.ingredients, components: undefined }).hydration,
+    [recipe, component.ingredients]
+  );
+
+  const updateIngredient = (index: number, changes: Partial<Ingredient>) => {
+    onChange({
+      ...component,
+      ingredients: component.ingredients.map((ing, i) => i === index ? { ...ing, ...changes } : ing),
+    });
+  };
+
+  return (
+    <div className="mb-6 p-4 border border-amber-200 rounded-lg">
+      <div className="flex flex-wrap items-end gap-4 mb-3">
+        <label className="text-sm font-semibold text-amber-900 flex-grow">
+          {isPreferment ? 'Preferment' : 'Soaker'}
+          <input
+            type="text"
+            value={component.name}
+            onChange={(e) => onChange({ ...component, name: e.target.value })}
+            disabled={isReadOnly}
+            className="mt-1 block w-full p-2 border border-gray-300 rounded-md text-lg font-bold text-amber-900 disabled:bg-transparent disabled:border-transparent disabled:p-0"
+          />
+        </label>
+        {isPreferment && (
+          <label className="text-sm font-semibold text-amber-900">
+            Prefermented flour (%)
+            <input
+              type="number"
+              value={component.prefermentedFlourPercentage}
+              onChange={(e) => onChange({ ...component, prefermentedFlourPercentage: Math.min(99, Math.max(0, Number(e.target.value))) })}
+              disabled={isReadOnly}
+              className="mt-1 block w-28 p-2 border border-gray-300 rounded-md text-gray-900 font-normal disabled:bg-gray-100 disabled:text-gray-500"
+              aria-label={`Share of the recipe's flour prefermented in ${component.name}`}
+            />
+          </label>
+        )}
+        {!isReadOnly && (
+          <button onClick={onRemove} className="text-sm text-red-600 hover:text-red-900 font-semibold pb-2">Remove</button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-2">
+        {isPreferment && <>Hydration {hydration.toFixed(0)}% &middot; </>}
+        Build {formatWeight(totalGrams, displayUnit)}{displayUnit} and add it all to the final dough.
+      </p>
+
+      <table className="min-w-full divide-y divide-amber-200 text-sm">
+        <thead className="bg-amber-50">
+          <tr>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Ingredient</th>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">
+              {isPreferment ? "Baker's % of its flour" : '% of overall flour'}
+            </th>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Weight ({displayUnit})</th>
+            {!isReadOnly && <th scope="col" className="relative px-4 py-2"><span className="sr-only">Remove</span></th>}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {component.ingredients.map((ing, index) => (
+            <tr key={index}>
+              <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900">
+                {isReadOnly ? ing.name : (
+                  <select value={ing.name} onChange={(e) => updateIngredient(index, { name: e.target.value })} className="w-full p-2 border border-gray-300 rounded-md text-gray-900">
+                    {getAllIngredients().map(i => <option key={i.name} value={i.name}>{i.name}</option>)}
+                    {!getIngredientInfo(ing.name) && <option value={ing.name}>{ing.name} (unknown)</option>}
+                  </select>
+                )}
+              </td>
+              <td className="px-4 py-2 whitespace-nowrap">
+                <input
+                  type="number"
+                  value={ing.percentage}
+                  onChange={(e) => updateIngredient(index, { percentage: Math.max(0, Number(e.target.value)) })}
+                  disabled={isReadOnly}
+                  className="w-24 p-2 border border-gray-300 rounded-md text-gray-900 disabled:bg-gray-100 disabled:text-gray-500"
+                />
+              </td>
+              <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-800">
+                {formatWeight(getIngredientGrams(ingredientsInRecipe[index], recipe.totalFlourGrams), displayUnit)}
+              </td>
+              {!isReadOnly && (
+                <td className="px-4 py-2 whitespace-nowrap text-right">
+                  <button
+                    onClick={() => onChange({ ...component, ingredients: component.ingredients.filter((_, i) => i !== index) })}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    Remove
+                  </button>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {!isReadOnly && (
+        <button
+          onClick={() => onChange({ ...component, ingredients: [...component.ingredients, { name: 'Water', percentage: 0 }] })}
+          className="mt-3 px-3 py-1.5 text-sm font-medium rounded-md text-amber-700 bg-amber-100 hover:bg-amber-200"
+        >
+          + Add Ingredient
+        </button>
+      )}
+    </div>
+  );
+};
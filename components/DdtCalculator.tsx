@@ -0,0 +1,98 @@
+/**
+ * @file A calculator for the mixing water temperature needed to reach a desired dough temperature.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { calculateWaterTemperature, FRICTION_FACTOR_PRESETS } from '../services/doughTemperature';
+
+interface DdtCalculatorProps {
+  /** The weight of water in the current scaled recipe, in grams. */
+  waterGrams: number;
+  hasLevain: boolean;
+}
+
+const inputClassName = 'mt-1 block w-24 p-2 border border-gray-300 rounded-md text-gray-900 font-normal';
+
+/**
+ * Takes the desired dough temperature and the temperatures of everything else going into the mix,
+ * and shows the water temperature to use, suggesting ice when the tap can't get cold enough.
+ */
+export const DdtCalculator: React.FC<DdtCalculatorProps> = ({ waterGrams, hasLevain }) => {
+  const [desiredDoughTemperatureC, setDesiredDoughTemperatureC] = useState(24);
+  const [roomTemperatureC, setRoomTemperatureC] = useState(22);
+  const [flourTemperatureC, setFlourTemperatureC] = useState(22);
+  const [levainTemperatureC, setLevainTemperatureC] = useState(24);
+  const [frictionFactorC, setFrictionFactorC] = useState(FRICTION_FACTOR_PRESETS[0].frictionFactorC);
+  const [tapColdTemperatureC, setTapColdTemperatureC] = useState(12);
+
+  const result = useMemo(() => calculateWaterTemperature({
+    desiredDoughTemperatureC,
+    roomTemperatureC,
+    flourTemperatureC,
+    levainTemperatureC: hasLevain ? levainTemperatureC : null,
+    frictionFactorC,
+    tapColdTemperatureC,
+    waterGrams,
+  }), [desiredDoughTemperatureC, roomTemperatureC, flourTemperatureC, levainTemperatureC, hasLevain, frictionFactorC, tapColdTemperatureC, waterGrams]);
+
+  return (
+    <div className="mt-8 pt-6 border-t border-amber-200">
+      <h3 className="text-lg font-bold text-amber-900 mb-3">Water Temperature (DDT)</h3>
+      <div className="flex flex-wrap gap-4 mb-4">
+        <label className="text-sm font-semibold text-amber-900">
+          Desired dough (°C)
+          <input type="number" value={desiredDoughTemperatureC} onChange={(e) => setDesiredDoughTemperatureC(Number(e.target.value))} className={inputClassName} />
+        </label>
+        <label className="text-sm font-semibold text-amber-900">
+          Room (°C)
+          <input type="number" value={roomTemperatureC} onChange={(e) => setRoomTemperatureC(Number(e.target.value))} className={inputClassName} />
+        </label>
+        <label className="text-sm font-semibold text-amber-900">
+          Flour (°C)
+          <input type="number" value={flourTemperatureC} onChange={(e) => setFlourTemperatureC(Number(e.target.value))} className={inputClassName} />
+        </label>
+        {hasLevain && (
+          <label className="text-sm font-semibold text-amber-900">
+            Levain (°C)
+            <input type="number" value={levainTemperatureC} onChange={(e) => setLevainTemperatureC(Number(e.target.value))} className={inputClassName} />
+          </label>
+        )}
+        <label className="text-sm font-semibold text-amber-900">
+          Friction (°C)
+          <input type="number" value={frictionFactorC} onChange={(e) => setFrictionFactorC(Number(e.target.value))} className={inputClassName} />
+          <select
+            value=""
+            onChange={(e) => e.target.value && setFrictionFactorC(Number(e.target.value))}
+            className="mt-1 block w-24 p-1 border border-gray-300 rounded-md text-xs text-gray-700 font-normal"
+            aria-label="Friction factor preset"
+          >
+            <option value="">Preset…</option>
+            {FRICTION_FACTOR_PRESETS.map(p => <option key={p.label} value={p.frictionFactorC}>{p.label}</option>)}
+          </select>
+        </label>
+        <label className="text-sm font-semibold text-amber-900">
+          Tap cold (°C)
+          <input type="number" value={tapColdTemperatureC} onChange={(e) => setTapColdTemperatureC(Number(e.target.value))} className={inputClassName} />
+        </label>
+      </div>
+
+      <div className="p-4 bg-amber-50 rounded-lg text-gray-800">
+        <p className="text-lg">
+          Use water at <span className="font-bold text-amber-900">{result.waterTemperatureC.toFixed(1)}°C</span>
+          {' '}for {waterGrams.toFixed(0)}g of water.
+        </p>
+        {result.iceGrams > 0 && (
+          <p className="mt-1 text-sm">
+            That's colder than your tap. Use <span className="font-bold">{result.iceGrams.toFixed(0)}g of ice</span> with{' '}
+            <span className="font-bold">{result.coldWaterGrams.toFixed(0)}g of tap-cold water</span>.
+          </p>
+        )}
+        {!result.isAchievable && (
+          <p className="mt-1 text-sm text-red-700">
+            Even ice water can't reach this temperature. Chill the flour or levain, or lower the desired dough temperature.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
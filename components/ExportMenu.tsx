@@ -0,0 +1,45 @@
+/**
+ * @file A compact control for exporting one or more recipes in a chosen format.
+ */
+
+import React from 'react';
+import { Recipe } from '../types';
+import { downloadRecipes, ExportFormat } from '../services/recipeExport';
+
+interface ExportMenuProps {
+  recipes: Recipe[];
+  /** The file name to use, without extension. */
+  baseName: string;
+  label?: string;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'Backup bundle (JSON)' },
+  { format: 'csv', label: 'Spreadsheet (CSV)' },
+  { format: 'jsonld', label: 'schema.org Recipe (JSON-LD)' },
+];
+
+/**
+ * A dropdown that downloads the given recipes as soon as a format is picked.
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ recipes, baseName, label = 'Export' }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const format = e.target.value as ExportFormat;
+    if (!format) return;
+    downloadRecipes(recipes, format, baseName);
+    e.target.value = '';
+  };
+
+  return (
+    <select
+      defaultValue=""
+      onChange={handleChange}
+      disabled={recipes.length === 0}
+      className="px-3 py-2 text-sm font-semibold text-amber-800 bg-amber-100 border border-transparent rounded-md hover:bg-amber-200 disabled:opacity-50"
+      aria-label={label}
+    >
+      <option value="" disabled>{label}…</option>
+      {FORMAT_OPTIONS.map(o => <option key={o.format} value={o.format}>{o.label}</option>)}
+    </select>
+  );
+};
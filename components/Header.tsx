@@ -8,7 +8,7 @@ interface HeaderProps {
 
 export const Header: React.FC<HeaderProps> = ({ user, onLogout }) => {
   return (
-    <header className="bg-white shadow-md border-b-2 border-amber-200">
+    <header className="bg-white shadow-md border-b-2 border-amber-200 print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
         <h1 className="text-2xl font-bold text-amber-800 tracking-tight">
           Bread Calculator
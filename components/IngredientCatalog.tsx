@@ -0,0 +1,244 @@
+/**
+ * @file A component for managing the user's custom ingredient catalog and ingredient prices.
+ */
+
+import React, { useState } from 'react';
+import { IngredientInfo, IngredientCategory, IngredientPrice } from '../types';
+import { ALL_INGREDIENTS, INGREDIENT_CATEGORIES, CURRENCIES } from '../constants';
+import { addIngredientPrice, getPriceAt, formatMoney } from '../services/ingredientCosts';
+import { toLocalInputValue } from '../services/dateTime';
+
+interface IngredientCatalogProps {
+  ingredients: IngredientInfo[];
+  onSave: (ingredients: IngredientInfo[]) => void;
+  /** The user's full price history. */
+  prices: IngredientPrice[];
+  currency: string;
+  onSavePrices: (prices: IngredientPrice[]) => void;
+  onCurrencyChange: (currency: string) => void;
+  onBack: () => void;
+}
+
+/**
+ * Lists the user's custom ingredients and lets them add or remove entries.
+ * Built-in ingredients are shown for reference but can't be changed, though any ingredient can be given a price.
+ */
+export const IngredientCatalog: React.FC<IngredientCatalogProps> = ({ ingredients, onSave, prices, currency, onSavePrices, onCurrencyChange, onBack }) => {
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<IngredientCategory>('Flour');
+  const [proteinPercentage, setProteinPercentage] = useState('');
+  const [waterContentPercentage, setWaterContentPercentage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Prices being typed, by ingredient name. A price is recorded when its field loses focus.
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, string>>({});
+  // The day entered prices take effect, as a date input value.
+  const today = toLocalInputValue(new Date()).slice(0, 10);
+  const [priceDate, setPriceDate] = useState(today);
+
+  // Prices entered for today take effect at once, so they replace any entered earlier today; other days start at midnight.
+  const getPriceEffectiveDate = (): Date => (priceDate && priceDate !== today ? new Date(`${priceDate}T00:00`) : new Date());
+
+  const handleAdd = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Please enter an ingredient name.');
+      return;
+    }
+    const isDuplicate = [...ALL_INGREDIENTS, ...ingredients]
+      .some(i => i.name.toLowerCase() === trimmedName.toLowerCase());
+    if (isDuplicate) {
+      setError(`An ingredient named "${trimmedName}" already exists.`);
+      return;
+    }
+
+    const newIngredient: IngredientInfo = { name: trimmedName, category, isCustom: true };
+    if (category === 'Flour' && proteinPercentage !== '') {
+      newIngredient.proteinPercentage = Math.max(0, Number(proteinPercentage));
+    }
+    if (waterContentPercentage !== '') {
+      newIngredient.waterContent = Math.min(100, Math.max(0, Number(waterContentPercentage))) / 100;
+    }
+
+    onSave([...ingredients, newIngredient]);
+    setName('');
+    setProteinPercentage('');
+    setWaterContentPercentage('');
+    setError(null);
+  };
+
+  const handleRemove = (ingredientName: string) => {
+    if (window.confirm(`Remove "${ingredientName}" from your catalog? Recipes that use it will keep the name but lose its details.`)) {
+      onSave(ingredients.filter(i => i.name !== ingredientName));
+    }
+  };
+
+  const commitPrice = (ingredientName: string) => {
+    const draft = priceDrafts[ingredientName];
+    setPriceDrafts(prev => {
+      const next = { ...prev };
+      delete next[ingredientName];
+      return next;
+    });
+    if (draft === undefined || draft.trim() === '' || !Number.isFinite(Number(draft))) return;
+    const effectiveFrom = getPriceEffectiveDate();
+    const current = getPriceAt(prices, ingredientName, currency, effectiveFrom.toISOString());
+    if (current?.pricePerKg === Number(draft)) return;
+    onSavePrices(addIngredientPrice(prices, ingredientName, Number(draft), currency, effectiveFrom));
+  };
+
+  const handleCurrencyChange = (newCurrency: string) => {
+    const hasPrices = prices.some(p => p.currency === currency);
+    if (hasPrices && !window.confirm(`Prices entered in ${currency} won't be used for ${newCurrency} costs. You'll need to enter prices in ${newCurrency}. Continue?`)) {
+      return;
+    }
+    onCurrencyChange(newCurrency);
+  };
+
+  // Earlier prices of an ingredient in the current currency, newest first, for the price field's tooltip.
+  const describeHistory = (ingredientName: string): string | undefined => {
+    const history = prices
+      .filter(p => p.ingredientName === ingredientName && p.currency === currency)
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+    if (history.length === 0) return undefined;
+    return history.map(p => `${new Date(p.effectiveFrom).toLocaleDateString()}: ${formatMoney(p.pricePerKg, currency)}/kg`).join('\n');
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 sm:p-6 lg:p-8">
+      <button onClick={onBack} className="mb-4 text-amber-700 hover:text-amber-900 font-semibold">&larr; Back to Library</button>
+      <div className="bg-white rounded-lg shadow-lg p-6 sm:p-8 border border-amber-200">
+        <h1 className="text-3xl font-bold text-amber-900 mb-2">My Ingredients</h1>
+        <p className="text-gray-600 mb-6">Add your own flours, liquids and inclusions. They appear in the recipe editor and are recognized when importing recipes.</p>
+
+        <div className="flex flex-wrap items-center gap-3 mb-6 text-sm text-gray-700">
+          <label className="font-semibold text-amber-900">
+            Currency
+            <select
+              value={currency}
+              onChange={(e) => handleCurrencyChange(e.target.value)}
+              className="ml-2 p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+            >
+              {[...new Set([currency, ...CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+          <label className="font-semibold text-amber-900">
+            Prices from
+            <input
+              type="date"
+              value={priceDate}
+              onChange={(e) => setPriceDate(e.target.value)}
+              className="ml-2 p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+            />
+          </label>
+          <span>Prices are per kilogram and take effect from the date shown. Changing a price keeps the old one, so past bakes are costed at the prices of their day.</span>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative mb-4" role="alert">
+            <strong className="font-bold">Error: </strong>
+            <span className="block sm:inline">{error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end p-4 bg-amber-50 rounded-lg mb-6">
+          <label className="sm:col-span-2 text-sm font-semibold text-amber-900">
+            Name
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Spelt Flour"
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+            />
+          </label>
+          <label className="text-sm font-semibold text-amber-900">
+            Category
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as IngredientCategory)}
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+            >
+              {INGREDIENT_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+          <label className="text-sm font-semibold text-amber-900">
+            Protein (%)
+            <input
+              type="number"
+              value={proteinPercentage}
+              onChange={(e) => setProteinPercentage(e.target.value)}
+              disabled={category !== 'Flour'}
+              placeholder="Optional"
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900 font-normal disabled:bg-gray-100"
+            />
+          </label>
+          <label className="text-sm font-semibold text-amber-900">
+            Water content (%)
+            <input
+              type="number"
+              value={waterContentPercentage}
+              onChange={(e) => setWaterContentPercentage(e.target.value)}
+              placeholder="Optional"
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+            />
+          </label>
+          <div className="sm:col-span-5 flex justify-end">
+            <button
+              onClick={handleAdd}
+              className="px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 transition-colors"
+            >
+              + Add Ingredient
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-amber-200">
+            <thead className="bg-amber-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Ingredient</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Category</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Protein</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Water</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Price / kg ({currency})</th>
+                <th scope="col" className="relative px-6 py-3"><span className="sr-only">Remove</span></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {[...ALL_INGREDIENTS, ...ingredients].map(ing => (
+                <tr key={ing.name}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{ing.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{ing.category}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{ing.proteinPercentage !== undefined ? `${ing.proteinPercentage}%` : '—'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{ing.waterContent !== undefined ? `${(ing.waterContent * 100).toFixed(0)}%` : '—'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={priceDrafts[ing.name] ?? getPriceAt(prices, ing.name, currency, getPriceEffectiveDate().toISOString())?.pricePerKg ?? ''}
+                      onChange={(e) => setPriceDrafts(prev => ({ ...prev, [ing.name]: e.target.value }))}
+                      onBlur={() => commitPrice(ing.name)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') commitPrice(ing.name); }}
+                      placeholder="—"
+                      title={describeHistory(ing.name)}
+                      className="w-24 p-1 border border-gray-300 rounded-md text-gray-900"
+                      aria-label={`Price per kilogram of ${ing.name}`}
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {ing.isCustom ? (
+                      <button onClick={() => handleRemove(ing.name)} className="text-red-600 hover:text-red-900">Remove</button>
+                    ) : (
+                      <span className="text-xs font-semibold bg-amber-100 text-amber-800 px-2 py-1 rounded-full">BUILT-IN</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
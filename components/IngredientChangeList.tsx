@@ -0,0 +1,48 @@
+/**
+ * @file Lists how a formula's baker's percentages differ from another version of it.
+ */
+
+import React from 'react';
+import { IngredientChange } from '../types';
+
+interface IngredientChangeListProps {
+  changes: IngredientChange[];
+  fromLevainHydration?: number;
+  toLevainHydration?: number;
+  /** Shown when nothing differs. */
+  emptyMessage: string;
+}
+
+const formatPercentage = (value: number | null | undefined): string => value == null ? '—' : `${value.toFixed(1)}%`;
+
+/**
+ * Shows each changed ingredient's old and new percentage with the difference, and the levain hydration if it changed.
+ */
+export const IngredientChangeList: React.FC<IngredientChangeListProps> = ({ changes, fromLevainHydration, toLevainHydration, emptyMessage }) => {
+  if (changes.length === 0 && fromLevainHydration === toLevainHydration) {
+    return <p className="text-sm text-gray-600">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="text-sm text-gray-800 space-y-1">
+      {changes.map(change => {
+        const delta = (change.toPercentage ?? 0) - (change.fromPercentage ?? 0);
+        return (
+          <li key={change.name}>
+            <span className="font-semibold">{change.name}:</span>{' '}
+            {formatPercentage(change.fromPercentage)} &rarr; {formatPercentage(change.toPercentage)}{' '}
+            <span className={delta > 0 ? 'text-green-700' : 'text-red-700'}>
+              ({delta > 0 ? '+' : ''}{delta.toFixed(1)})
+            </span>
+          </li>
+        );
+      })}
+      {fromLevainHydration !== toLevainHydration && (
+        <li>
+          <span className="font-semibold">Levain Hydration:</span>{' '}
+          {formatPercentage(fromLevainHydration)} &rarr; {formatPercentage(toLevainHydration)}
+        </li>
+      )}
+    </ul>
+  );
+};
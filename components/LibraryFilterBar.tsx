@@ -0,0 +1,116 @@
+/**
+ * @file The search, filter and sort controls shown above the recipe library.
+ */
+
+import React from 'react';
+import { LibraryFilters, LibrarySortOrder, DEFAULT_LIBRARY_FILTERS, hasActiveFilters } from '../services/recipeLibrary';
+
+interface LibraryFilterBarProps {
+  filters: LibraryFilters;
+  /** The flours available to filter by. */
+  flourTypes: string[];
+  /** How many recipes match, out of how many in total. */
+  matchCount: number;
+  totalCount: number;
+  onChange: (filters: LibraryFilters) => void;
+}
+
+const SORT_OPTIONS: { value: LibrarySortOrder; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'hydration', label: 'Hydration' },
+  { value: 'dateAdded', label: 'Date added' },
+];
+
+const fieldClassName = "px-2 py-2 text-sm bg-white border border-amber-300 rounded-md focus:ring-amber-500 focus:border-amber-500";
+
+const parseBound = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * A controlled bar of library controls. The parent owns the filter state, so it survives leaving the library.
+ */
+export const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({ filters, flourTypes, matchCount, totalCount, onChange }) => {
+  const update = <K extends keyof LibraryFilters>(key: K, value: LibraryFilters[K]) => onChange({ ...filters, [key]: value });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-amber-200 p-4 mb-6 flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="search"
+          value={filters.search}
+          onChange={e => update('search', e.target.value)}
+          placeholder="Search by name, description or tag"
+          className={`${fieldClassName} flex-grow`}
+          aria-label="Search recipes"
+        />
+        <label className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+          Sort by
+          <select value={filters.sortBy} onChange={e => update('sortBy', e.target.value as LibrarySortOrder)} className={fieldClassName}>
+            {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <select value={filters.flourType} onChange={e => update('flourType', e.target.value)} className={fieldClassName} aria-label="Flour type">
+          <option value="">Any flour</option>
+          {flourTypes.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+
+        <div className="flex items-center gap-1">
+          <span className="font-semibold text-amber-800">Hydration</span>
+          <input
+            type="number"
+            value={filters.minHydration ?? ''}
+            onChange={e => update('minHydration', parseBound(e.target.value))}
+            placeholder="min"
+            className={`${fieldClassName} w-20`}
+            aria-label="Minimum hydration"
+          />
+          <span>–</span>
+          <input
+            type="number"
+            value={filters.maxHydration ?? ''}
+            onChange={e => update('maxHydration', parseBound(e.target.value))}
+            placeholder="max"
+            className={`${fieldClassName} w-20`}
+            aria-label="Maximum hydration"
+          />
+          <span>%</span>
+        </div>
+
+        <select value={filters.leavening} onChange={e => update('leavening', e.target.value as LibraryFilters['leavening'])} className={fieldClassName} aria-label="Leavening">
+          <option value="all">Any leavening</option>
+          <option value="levain">Levain</option>
+          <option value="yeast">Commercial yeast</option>
+        </select>
+
+        <select value={filters.richness} onChange={e => update('richness', e.target.value as LibraryFilters['richness'])} className={fieldClassName} aria-label="Enriched or lean">
+          <option value="all">Enriched &amp; lean</option>
+          <option value="enriched">Enriched</option>
+          <option value="lean">Lean</option>
+        </select>
+
+        <select value={filters.source} onChange={e => update('source', e.target.value as LibraryFilters['source'])} className={fieldClassName} aria-label="Standard or saved">
+          <option value="all">Standard &amp; saved</option>
+          <option value="standard">Standard</option>
+          <option value="saved">Saved</option>
+        </select>
+
+        <span className="ml-auto text-gray-600">
+          {matchCount === totalCount ? `${totalCount} recipes` : `${matchCount} of ${totalCount} recipes`}
+        </span>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_LIBRARY_FILTERS, collection: filters.collection, sortBy: filters.sortBy })}
+            className="text-amber-700 hover:text-amber-900 font-semibold"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
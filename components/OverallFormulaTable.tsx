@@ -0,0 +1,47 @@
+/**
+ * @file The overall formula of a multi-component recipe: everything in the final dough and its components, summed.
+ */
+
+import React, { useMemo } from 'react';
+import { Recipe, WeightUnit } from '../types';
+import { getIngredientGramsByName, getOverallFormula } from '../services/recipeCalculations';
+import { formatWeight } from '../services/unitConversion';
+
+interface OverallFormulaTableProps {
+  recipe: Recipe;
+  displayUnit: WeightUnit;
+}
+
+/**
+ * Lists each ingredient once, with its baker's percentage of the overall flour and its total weight across all stages.
+ */
+export const OverallFormulaTable: React.FC<OverallFormulaTableProps> = ({ recipe, displayUnit }) => {
+  const rows = useMemo(() => {
+    const gramsByName = getIngredientGramsByName(recipe);
+    return getOverallFormula(recipe).map(ing => ({ ...ing, grams: gramsByName.get(ing.name) ?? 0 }));
+  }, [recipe]);
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-bold text-amber-900 mb-2">Overall Formula</h3>
+      <table className="min-w-full divide-y divide-amber-200 text-sm">
+        <thead className="bg-amber-50">
+          <tr>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Ingredient</th>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Baker's %</th>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Weight ({displayUnit})</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map(row => (
+            <tr key={row.name}>
+              <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900">{row.name}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-800">{row.percentage.toFixed(1)}%</td>
+              <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-800">{formatWeight(row.grams, displayUnit)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
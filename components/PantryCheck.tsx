@@ -0,0 +1,87 @@
+/**
+ * @file Checks the recipe's current batch against the pantry, and plans or confirms the bake.
+ */
+
+import React, { useMemo } from 'react';
+import { Recipe, PantryItem } from '../types';
+import { checkStock } from '../services/pantry';
+import { formatScaledGrams } from '../services/productionScaling';
+
+interface PantryCheckProps {
+  /** The recipe, scaled to the batch being planned. */
+  recipe: Recipe;
+  doughWeightGrams: number;
+  pantry: PantryItem[];
+  /** Adds the batch to the planned bakes used for the shopping list. */
+  onPlanBake: (doughWeightGrams: number) => void;
+  /** Records that the batch was made, deducting what it used from the pantry. */
+  onConfirmBake: (recipe: Recipe) => void;
+}
+
+/**
+ * Lists what the batch needs of each stocked ingredient against what is on hand, highlighting shortfalls.
+ */
+export const PantryCheck: React.FC<PantryCheckProps> = ({ recipe, doughWeightGrams, pantry, onPlanBake, onConfirmBake }) => {
+  const lines = useMemo(() => checkStock(recipe, pantry), [recipe, pantry]);
+  const shortfalls = lines.filter(line => line.shortfallGrams > 0);
+
+  const handleConfirm = () => {
+    const message = shortfalls.length > 0
+      ? `The pantry is short of ${shortfalls.map(line => line.name).join(', ')}. Deduct what is there anyway?`
+      : `Deduct the ingredients for this ${doughWeightGrams.toFixed(0)}g batch from the pantry?`;
+    if (window.confirm(message)) onConfirmBake(recipe);
+  };
+
+  return (
+    <div className="mt-8 p-4 bg-amber-50 rounded-lg">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <h3 className="text-lg font-bold text-amber-900">Pantry</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onPlanBake(doughWeightGrams)}
+            disabled={doughWeightGrams <= 0}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-amber-700 bg-amber-100 hover:bg-amber-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Plan This Bake
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={lines.length === 0}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-amber-600 hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Confirm Bake
+          </button>
+        </div>
+      </div>
+      <p className={`text-sm mb-2 ${shortfalls.length > 0 ? 'text-red-700 font-semibold' : 'text-gray-600'}`}>
+        {shortfalls.length > 0
+          ? `Not enough ${shortfalls.map(line => line.name).join(', ')} for a ${doughWeightGrams.toFixed(0)}g batch.`
+          : `There is enough in the pantry for a ${doughWeightGrams.toFixed(0)}g batch.`}
+      </p>
+      {lines.length > 0 && (
+        <table className="min-w-full divide-y divide-amber-200 text-sm">
+          <thead>
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Ingredient</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-amber-800 uppercase tracking-wider">Needed (g)</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-amber-800 uppercase tracking-wider">On hand (g)</th>
+              <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-amber-800 uppercase tracking-wider">Short (g)</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {lines.map(line => (
+              <tr key={line.name} className={line.shortfallGrams > 0 ? 'bg-red-50' : undefined}>
+                <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900">{line.name}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-800">{formatScaledGrams(line.requiredGrams, line.name)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-800">{formatScaledGrams(line.onHandGrams, line.name)}</td>
+                <td className={`px-4 py-2 whitespace-nowrap text-right ${line.shortfallGrams > 0 ? 'text-red-700 font-semibold' : 'text-gray-500'}`}>
+                  {line.shortfallGrams > 0 ? formatScaledGrams(line.shortfallGrams, line.name) : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+/**
+ * @file A page for keeping the pantry's stock, the planned bakes and the shopping list they add up to.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Recipe, PantryItem, PlannedBake } from '../types';
+import { UNSTOCKED_INGREDIENTS } from '../constants';
+import { getAllIngredients } from '../services/ingredientCatalog';
+import { buildShoppingList, deductFromPantry, getPlannedRecipe, updatePantryItem } from '../services/pantry';
+import { formatScaledGrams } from '../services/productionScaling';
+
+interface PantryManagerProps {
+  pantry: PantryItem[];
+  plannedBakes: PlannedBake[];
+  recipes: Recipe[];
+  onSavePantry: (pantry: PantryItem[]) => void;
+  onSavePlannedBakes: (plans: PlannedBake[]) => void;
+  onOpenRecipe: (recipe: Recipe) => void;
+  onBack: () => void;
+}
+
+const optionalNumber = (value: string): number | undefined => value === '' ? undefined : Math.max(0, Number(value));
+
+/**
+ * Shows one shopping list for all planned bakes, the bakes themselves, and the stock of each ingredient
+ * with its low-stock threshold. Marking an item bought adds it to the pantry; marking a bake done deducts it.
+ */
+export const PantryManager: React.FC<PantryManagerProps> = ({ pantry, plannedBakes, recipes, onSavePantry, onSavePlannedBakes, onOpenRecipe, onBack }) => {
+  const [newIngredient, setNewIngredient] = useState('');
+
+  const shoppingList = useMemo(() => buildShoppingList(plannedBakes, recipes, pantry), [plannedBakes, recipes, pantry]);
+  const addableIngredients = getAllIngredients()
+    .map(i => i.name)
+    .filter(name => !UNSTOCKED_INGREDIENTS.includes(name) && !pantry.some(item => item.ingredientName === name));
+
+  const handleAddIngredient = () => {
+    if (!newIngredient) return;
+    onSavePantry(updatePantryItem(pantry, newIngredient, {}));
+    setNewIngredient('');
+  };
+
+  const handleBakeDone = (plan: PlannedBake) => {
+    const recipe = getPlannedRecipe(plan, recipes);
+    if (recipe && window.confirm(`Deduct the ingredients for ${plan.doughWeightGrams.toFixed(0)}g of ${recipe.name} from the pantry?`)) {
+      onSavePantry(deductFromPantry(pantry, recipe));
+      onSavePlannedBakes(plannedBakes.filter(p => p.id !== plan.id));
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 sm:p-6 lg:p-8">
+      <button onClick={onBack} className="mb-4 text-amber-700 hover:text-amber-900 font-semibold">&larr; Back to Library</button>
+      <div className="bg-white rounded-lg shadow-lg p-6 sm:p-8 border border-amber-200">
+        <h1 className="text-3xl font-bold text-amber-900 mb-2">Pantry</h1>
+        <p className="text-gray-600 mb-6">Plan bakes from a recipe's Pantry section. The shopping list covers all of them and tops up anything below its low-stock level.</p>
+
+        <h2 className="text-xl font-bold text-amber-900 mb-2">Shopping List</h2>
+        {shoppingList.length === 0 ? (
+          <p className="text-sm text-gray-600 mb-8">Nothing to buy.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-amber-200 rounded-lg mb-8">
+            {shoppingList.map(item => (
+              <li key={item.name} className="flex flex-wrap justify-between items-center gap-2 px-4 py-2 text-sm">
+                <div>
+                  <span className="font-semibold text-gray-900">{item.name}</span>{' '}
+                  <span className="text-gray-800">{formatScaledGrams(item.toBuyGrams, item.name)}g</span>
+                  <span className={`ml-2 text-xs font-semibold px-2 py-0.5 rounded-full ${item.reason === 'shortfall' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}>
+                    {item.reason === 'shortfall' ? 'NEEDED' : 'LOW STOCK'}
+                  </span>
+                  <div className="text-xs text-gray-500">
+                    Planned bakes use {formatScaledGrams(item.requiredGrams, item.name)}g; {formatScaledGrams(item.onHandGrams, item.name)}g on hand.
+                  </div>
+                </div>
+                <button
+                  onClick={() => onSavePantry(updatePantryItem(pantry, item.name, { onHandGrams: item.onHandGrams + item.toBuyGrams }))}
+                  className="text-amber-700 hover:text-amber-900 font-semibold"
+                >
+                  Bought
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h2 className="text-xl font-bold text-amber-900 mb-2">Planned Bakes</h2>
+        {plannedBakes.length === 0 ? (
+          <p className="text-sm text-gray-600 mb-8">No bakes planned.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-amber-200 rounded-lg mb-8">
+            {plannedBakes.map(plan => {
+              const recipe = recipes.find(r => r.id === plan.recipeId);
+              return (
+                <li key={plan.id} className="flex flex-wrap justify-between items-center gap-2 px-4 py-2 text-sm">
+                  {recipe ? (
+                    <button onClick={() => onOpenRecipe(recipe)} className="font-semibold text-gray-900 hover:underline">{recipe.name}</button>
+                  ) : (
+                    <span className="text-gray-500 italic">Deleted recipe</span>
+                  )}
+                  <div className="flex items-center gap-3">
+                    <label className="text-gray-700">
+                      Dough (g)
+                      <input
+                        type="number"
+                        value={plan.doughWeightGrams}
+                        onChange={(e) => onSavePlannedBakes(plannedBakes.map(p => p.id === plan.id ? { ...p, doughWeightGrams: Math.max(0, Number(e.target.value)) } : p))}
+                        className="ml-2 w-24 p-1 border border-gray-300 rounded-md text-gray-900"
+                      />
+                    </label>
+                    {recipe && (
+                      <button onClick={() => handleBakeDone(plan)} className="text-amber-700 hover:text-amber-900 font-semibold">Baked</button>
+                    )}
+                    <button onClick={() => onSavePlannedBakes(plannedBakes.filter(p => p.id !== plan.id))} className="text-red-600 hover:text-red-900">Remove</button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <h2 className="text-xl font-bold text-amber-900 mb-2">Stock</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-amber-200">
+            <thead className="bg-amber-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Ingredient</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">On hand (g)</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Low stock below (g)</th>
+                <th scope="col" className="relative px-6 py-3"><span className="sr-only">Remove</span></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {pantry.map(item => {
+                const isLow = item.lowStockGrams !== undefined && item.onHandGrams < item.lowStockGrams;
+                return (
+                  <tr key={item.ingredientName} className={isLow ? 'bg-amber-50' : undefined}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.ingredientName}
+                      {isLow && <span className="ml-2 text-xs font-semibold bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">LOW</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="number"
+                        value={item.onHandGrams}
+                        onChange={(e) => onSavePantry(updatePantryItem(pantry, item.ingredientName, { onHandGrams: Math.max(0, Number(e.target.value)) }))}
+                        className="w-28 p-2 border border-gray-300 rounded-md text-gray-900"
+                        aria-label={`Grams of ${item.ingredientName} on hand`}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="number"
+                        value={item.lowStockGrams ?? ''}
+                        onChange={(e) => onSavePantry(updatePantryItem(pantry, item.ingredientName, { lowStockGrams: optionalNumber(e.target.value) }))}
+                        placeholder="None"
+                        className="w-28 p-2 border border-gray-300 rounded-md text-gray-900"
+                        aria-label={`Low-stock threshold for ${item.ingredientName} in grams`}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button onClick={() => onSavePantry(pantry.filter(i => i.ingredientName !== item.ingredientName))} className="text-red-600 hover:text-red-900">Remove</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {addableIngredients.length > 0 && (
+          <div className="mt-4 flex gap-2">
+            <select
+              value={newIngredient}
+              onChange={(e) => setNewIngredient(e.target.value)}
+              className="p-2 border border-gray-300 rounded-md text-gray-900"
+              aria-label="Ingredient to stock"
+            >
+              <option value="">Choose an ingredient…</option>
+              {addableIngredients.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <button
+              onClick={handleAddIngredient}
+              disabled={!newIngredient}
+              className="px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              + Stock Ingredient
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
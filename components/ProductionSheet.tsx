@@ -0,0 +1,164 @@
+/**
+ * @file A printable bakery production sheet for a recipe at its current scaling.
+ */
+
+import React, { useMemo } from 'react';
+import { Recipe, Ingredient, IngredientCategory } from '../types';
+import { INGREDIENT_CATEGORIES } from '../constants';
+import { getIngredientInfo } from '../services/ingredientCatalog';
+import { calculateDoughComposition, getComponentIngredientsInRecipe, getIngredientGrams, getTotalDoughPercentage, getTotalPercentage } from '../services/recipeCalculations';
+import { formatScaledGrams } from '../services/productionScaling';
+
+interface ProductionSheetProps {
+  recipe: Recipe;
+  /** The pieces being divided, when the recipe was scaled in production mode. */
+  production?: { pieceCount: number; pieceWeightGrams: number };
+  onClose: () => void;
+}
+
+const TEMPERATURE_FIELDS = ['Room', 'Flour', 'Water', 'Levain', 'Final dough'];
+const TIMING_FIELDS = ['Mix', 'Bulk start', 'Bulk end', 'Divide', 'Shape', 'Proof', 'Bake'];
+
+/**
+ * Lays out the recipe for the bench: a build list for each preferment or soaker, then the final dough's ingredients
+ * grouped by category, with check boxes to tick off as each is scaled, the dough yield and true hydration,
+ * and blank spaces for temperatures and timings.
+ * The toolbar is hidden when printing.
+ */
+export const ProductionSheet: React.FC<ProductionSheetProps> = ({ recipe, production, onClose }) => {
+  const composition = useMemo(() => calculateDoughComposition(recipe), [recipe]);
+  const doughWeight = (getTotalDoughPercentage(recipe) / 100) * recipe.totalFlourGrams;
+
+  const groups = useMemo(() => {
+    const byCategory = new Map<IngredientCategory | 'Other', Ingredient[]>();
+    for (const ing of recipe.ingredients) {
+      const category = getIngredientInfo(ing.name)?.category ?? 'Other';
+      byCategory.set(category, [...(byCategory.get(category) ?? []), ing]);
+    }
+    return [...INGREDIENT_CATEGORIES, 'Other' as const]
+      .filter(category => byCategory.has(category))
+      .map(category => ({ category, ingredients: byCategory.get(category)! }));
+  }, [recipe.ingredients]);
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 sm:p-6 lg:p-8 print:p-0 print:max-w-none">
+      <div className="flex justify-between items-center mb-4 print:hidden">
+        <button onClick={onClose} className="text-amber-700 hover:text-amber-900 font-semibold">&larr; Back to Recipe</button>
+        <button onClick={() => window.print()} className="px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 transition-colors">
+          Print
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6 sm:p-8 border border-amber-200 text-gray-900 print:shadow-none print:border-0 print:rounded-none print:p-0">
+        <div className="flex justify-between items-baseline border-b-2 border-gray-800 pb-2 mb-4">
+          <h1 className="text-2xl font-bold">{recipe.name}</h1>
+          <span className="text-sm">Date: ____________</span>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm mb-6">
+          <div><span className="font-semibold">Dough yield:</span> {doughWeight.toFixed(0)}g</div>
+          {production && (
+            <div><span className="font-semibold">Divide:</span> {production.pieceCount} &times; {production.pieceWeightGrams}g</div>
+          )}
+          <div><span className="font-semibold">True flour:</span> {composition.totalFlourGrams.toFixed(0)}g</div>
+          <div><span className="font-semibold">True hydration:</span> {composition.hydration.toFixed(1)}%</div>
+        </div>
+
+        {(recipe.components ?? []).map((component, componentIndex) => {
+          const ingredientsInRecipe = getComponentIngredientsInRecipe(recipe, component);
+          return (
+            <table key={componentIndex} className="w-full text-sm border-collapse mb-6 break-inside-avoid">
+              <thead>
+                <tr className="border-b border-gray-800">
+                  <th scope="col" className="w-8 py-1"><span className="sr-only">Scaled</span></th>
+                  <th scope="col" className="py-1 text-left">{component.name}</th>
+                  <th scope="col" className="py-1 text-right">{component.kind === 'preferment' ? "Baker's %" : '% of flour'}</th>
+                  <th scope="col" className="py-1 text-right">Grams</th>
+                </tr>
+              </thead>
+              <tbody>
+                {component.ingredients.map((ing, index) => (
+                  <tr key={`${ing.name}-${index}`} className="border-b border-gray-300">
+                    <td className="py-2"><input type="checkbox" aria-label={`${component.name} ${ing.name} scaled`} className="h-4 w-4" /></td>
+                    <td className="py-2 font-medium">{ing.name}</td>
+                    <td className="py-2 text-right">{ing.percentage.toFixed(1)}%</td>
+                    <td className="py-2 text-right font-bold">{formatScaledGrams(getIngredientGrams(ingredientsInRecipe[index], recipe.totalFlourGrams), ing.name)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          );
+        })}
+
+        <table className="w-full text-sm border-collapse mb-6">
+          <thead>
+            <tr className="border-b border-gray-800">
+              <th scope="col" className="w-8 py-1"><span className="sr-only">Scaled</span></th>
+              <th scope="col" className="py-1 text-left">{recipe.components?.length ? 'Final Dough' : 'Ingredient'}</th>
+              <th scope="col" className="py-1 text-right">Baker's %</th>
+              <th scope="col" className="py-1 text-right">Grams</th>
+            </tr>
+          </thead>
+          {groups.map(({ category, ingredients }) => (
+            <tbody key={category} className="break-inside-avoid">
+              <tr>
+                <th colSpan={4} scope="rowgroup" className="pt-3 pb-1 text-left text-xs uppercase tracking-wider text-gray-600">{category}</th>
+              </tr>
+              {ingredients.map((ing, index) => (
+                <tr key={`${ing.name}-${index}`} className="border-b border-gray-300">
+                  <td className="py-2"><input type="checkbox" aria-label={`${ing.name} scaled`} className="h-4 w-4" /></td>
+                  <td className="py-2 font-medium">{ing.name}</td>
+                  <td className="py-2 text-right">{ing.percentage.toFixed(1)}%</td>
+                  <td className="py-2 text-right font-bold">{formatScaledGrams(getIngredientGrams(ing, recipe.totalFlourGrams), ing.name)}</td>
+                </tr>
+              ))}
+            </tbody>
+          ))}
+          {recipe.components && recipe.components.length > 0 && (
+            <tbody className="break-inside-avoid">
+              <tr>
+                <th colSpan={4} scope="rowgroup" className="pt-3 pb-1 text-left text-xs uppercase tracking-wider text-gray-600">Preferments &amp; Soakers</th>
+              </tr>
+              {recipe.components.map((component, index) => {
+                const percentage = getTotalPercentage(getComponentIngredientsInRecipe(recipe, component));
+                const grams = (percentage / 100) * recipe.totalFlourGrams;
+                return (
+                  <tr key={`${component.name}-${index}`} className="border-b border-gray-300">
+                    <td className="py-2"><input type="checkbox" aria-label={`${component.name} added`} className="h-4 w-4" /></td>
+                    <td className="py-2 font-medium">{component.name}</td>
+                    <td className="py-2 text-right">{percentage.toFixed(1)}%</td>
+                    <td className="py-2 text-right font-bold">{grams.toFixed(0)}g</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          )}
+        </table>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 print:grid-cols-2 gap-6 text-sm">
+          <div>
+            <h2 className="font-bold border-b border-gray-800 mb-2">Temperatures (°C)</h2>
+            {TEMPERATURE_FIELDS.map(field => (
+              <div key={field} className="flex justify-between py-1.5 border-b border-dotted border-gray-400">
+                <span>{field}</span><span className="w-24" />
+              </div>
+            ))}
+          </div>
+          <div>
+            <h2 className="font-bold border-b border-gray-800 mb-2">Timings</h2>
+            {TIMING_FIELDS.map(field => (
+              <div key={field} className="flex justify-between py-1.5 border-b border-dotted border-gray-400">
+                <span>{field}</span><span className="w-24" />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="mt-6 text-sm">
+          <h2 className="font-bold border-b border-gray-800 mb-2">Notes</h2>
+          <div className="h-24 border border-gray-400 rounded-sm" />
+        </div>
+      </div>
+    </div>
+  );
+};
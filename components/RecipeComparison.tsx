@@ -0,0 +1,105 @@
+/**
+ * @file A side-by-side comparison of two or more recipes' formulas.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Recipe } from '../types';
+import { buildComparisonRows, getRecipeMetrics, percentagesDiffer, METRIC_LABELS, RecipeMetrics } from '../services/recipeComparison';
+
+interface RecipeComparisonProps {
+  /** The recipes to compare. The first is the baseline that the others are checked against. */
+  recipes: Recipe[];
+  onRemove: (recipeId: string) => void;
+  onOpenRecipe: (recipe: Recipe) => void;
+  onBack: () => void;
+}
+
+const METRIC_KEYS = Object.keys(METRIC_LABELS) as (keyof RecipeMetrics)[];
+
+const DIFFERENCE_CLASSES = 'bg-amber-100 text-amber-900 font-semibold';
+
+/**
+ * Aligns every ingredient from the recipes in one table, with baker's percentages and the grams each recipe
+ * needs for a common dough weight, followed by derived metrics. Values that differ from the first recipe are highlighted.
+ */
+export const RecipeComparison: React.FC<RecipeComparisonProps> = ({ recipes, onRemove, onOpenRecipe, onBack }) => {
+  const [doughWeightGrams, setDoughWeightGrams] = useState(1000);
+
+  const rows = useMemo(() => buildComparisonRows(recipes, doughWeightGrams), [recipes, doughWeightGrams]);
+  const metrics = useMemo(() => recipes.map(getRecipeMetrics), [recipes]);
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+      <button onClick={onBack} className="mb-4 text-amber-700 hover:text-amber-900 font-semibold">&larr; Back to Library</button>
+      <div className="bg-white rounded-lg shadow-lg p-6 sm:p-8 border border-amber-200">
+        <h2 className="text-3xl font-bold text-amber-900 mb-4">Compare Recipes</h2>
+        <div className="mb-6 p-4 bg-amber-50 rounded-lg">
+          <label htmlFor="comparisonDoughWeight" className="block text-sm font-bold text-amber-900 mb-1">Dough weight for every recipe (g)</label>
+          <input
+            type="number"
+            id="comparisonDoughWeight"
+            value={doughWeightGrams}
+            onChange={(e) => setDoughWeightGrams(Math.max(0, Number(e.target.value)))}
+            className="w-full sm:w-48 p-2 border border-gray-300 rounded-md shadow-sm text-gray-900 focus:ring-amber-500 focus:border-amber-500"
+          />
+          <p className="text-sm text-gray-600 mt-2">
+            Highlighted values differ from <span className="font-semibold">{recipes[0]?.name}</span>, the first recipe.
+          </p>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-amber-200 text-sm">
+            <thead className="bg-amber-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Ingredient</th>
+                {recipes.map(recipe => (
+                  <th key={recipe.id} scope="col" className="px-4 py-3 text-right text-xs font-bold text-amber-800 uppercase tracking-wider">
+                    <button onClick={() => onOpenRecipe(recipe)} className="uppercase hover:underline">{recipe.name}</button>
+                    {recipes.length > 2 && (
+                      <button onClick={() => onRemove(recipe.id)} className="ml-2 text-gray-500 hover:text-red-700" aria-label={`Remove ${recipe.name} from the comparison`}>&times;</button>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(row => (
+                <tr key={row.name}>
+                  <td className={`px-4 py-2 whitespace-nowrap font-medium text-gray-900 ${row.differs ? 'border-l-4 border-amber-400' : ''}`}>{row.name}</td>
+                  {row.cells.map((cell, index) => (
+                    <td
+                      key={recipes[index].id}
+                      className={`px-4 py-2 whitespace-nowrap text-right ${index > 0 && percentagesDiffer(cell?.percentage, row.cells[0]?.percentage) ? DIFFERENCE_CLASSES : 'text-gray-800'}`}
+                    >
+                      {cell ? (
+                        <>
+                          <div>{cell.percentage.toFixed(1)}%</div>
+                          <div className="text-xs text-gray-500">{cell.grams.toFixed(0)}g</div>
+                        </>
+                      ) : '—'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            <tbody className="bg-amber-50 divide-y divide-amber-100 border-t-2 border-amber-200">
+              {METRIC_KEYS.map(key => (
+                <tr key={key}>
+                  <th scope="row" className="px-4 py-2 text-left font-semibold text-amber-800">{METRIC_LABELS[key]}</th>
+                  {metrics.map((metric, index) => (
+                    <td
+                      key={recipes[index].id}
+                      className={`px-4 py-2 whitespace-nowrap text-right ${index > 0 && percentagesDiffer(metric[key], metrics[0][key]) ? DIFFERENCE_CLASSES : 'text-gray-800'}`}
+                    >
+                      {metric[key].toFixed(1)}%
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+/**
+ * @file The cost of the recipe's current batch, worked out from the user's ingredient prices.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Recipe, IngredientPrice } from '../types';
+import { calculateRecipeCost, formatMoney } from '../services/ingredientCosts';
+
+interface RecipeCostPanelProps {
+  /** The recipe, scaled to the batch being costed. */
+  recipe: Recipe;
+  prices: IngredientPrice[];
+  currency: string;
+  /** The number of pieces set in production mode. When omitted, the panel asks for one. */
+  productionPieceCount?: number;
+}
+
+/**
+ * Shows the batch cost, the cost per piece and per 100g of dough, and what each ingredient contributes,
+ * at today's prices. Ingredients without a price are listed so the totals aren't mistaken for complete.
+ */
+export const RecipeCostPanel: React.FC<RecipeCostPanelProps> = ({ recipe, prices, currency, productionPieceCount }) => {
+  const [pieceCount, setPieceCount] = useState(1);
+  const pieces = productionPieceCount ?? pieceCount;
+
+  const cost = useMemo(
+    () => calculateRecipeCost(recipe, prices, currency, new Date().toISOString(), pieces),
+    [recipe, prices, currency, pieces]
+  );
+
+  if (!cost.lines.some(line => line.cost !== null)) {
+    return (
+      <div className="mt-8 p-4 bg-amber-50 rounded-lg">
+        <h3 className="text-lg font-bold text-amber-900 mb-1">Cost</h3>
+        <p className="text-sm text-gray-600">Set ingredient prices in My Ingredients to see what this batch costs.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-8 p-4 bg-amber-50 rounded-lg">
+      <div className="flex flex-wrap justify-between items-end gap-4 mb-3">
+        <h3 className="text-lg font-bold text-amber-900">Cost</h3>
+        {productionPieceCount === undefined && (
+          <label className="text-sm font-semibold text-amber-900">
+            Pieces
+            <input
+              type="number"
+              value={pieceCount}
+              onChange={(e) => setPieceCount(Math.max(0, Math.round(Number(e.target.value))))}
+              className="mt-1 block w-24 p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+            />
+          </label>
+        )}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm text-gray-800 mb-3">
+        <div><span className="font-semibold text-amber-800">Batch ({cost.doughGrams.toFixed(0)}g):</span> {formatMoney(cost.totalCost, currency)}</div>
+        <div>
+          <span className="font-semibold text-amber-800">Per piece:</span>{' '}
+          {cost.costPerPiece !== null ? formatMoney(cost.costPerPiece, currency) : '—'}
+        </div>
+        <div>
+          <span className="font-semibold text-amber-800">Per 100g dough:</span>{' '}
+          {cost.costPer100Grams !== null ? formatMoney(cost.costPer100Grams, currency) : '—'}
+        </div>
+      </div>
+      <table className="min-w-full divide-y divide-amber-200 text-sm">
+        <thead>
+          <tr>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Ingredient</th>
+            <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-amber-800 uppercase tracking-wider">Weight (g)</th>
+            <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-amber-800 uppercase tracking-wider">Price / kg</th>
+            <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-amber-800 uppercase tracking-wider">Cost</th>
+            <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-amber-800 uppercase tracking-wider">Share</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {cost.lines.map(line => (
+            <tr key={line.name}>
+              <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900">{line.name}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-right text-gray-800">{line.grams.toFixed(0)}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-right text-gray-800">{line.pricePerKg !== null ? formatMoney(line.pricePerKg, currency) : '—'}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-right font-medium text-gray-800">{line.cost !== null ? formatMoney(line.cost, currency) : '—'}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-right text-gray-600">
+                {line.cost !== null && cost.totalCost > 0 ? `${((line.cost / cost.totalCost) * 100).toFixed(0)}%` : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {cost.unpricedIngredients.length > 0 && (
+        <p className="text-xs text-red-700 mt-2">No {currency} price for: {cost.unpricedIngredients.join(', ')}. These are excluded from the totals.</p>
+      )}
+    </div>
+  );
+};
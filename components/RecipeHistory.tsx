@@ -0,0 +1,93 @@
+/**
+ * @file A panel that lists a recipe's saved revisions and compares any two of them.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { RecipeRevision } from '../types';
+import { diffRevisions } from '../services/recipeHistory';
+import { getLevainHydration } from '../services/recipeCalculations';
+import { IngredientChangeList } from './IngredientChangeList';
+
+interface RecipeHistoryProps {
+  revisions: RecipeRevision[];
+  onRestore: (revision: RecipeRevision) => void;
+  isReadOnly?: boolean;
+}
+
+/**
+ * Lists revisions newest first. The baker picks an older ("From") and newer ("To") revision to see
+ * per-ingredient percentage changes, and can load any revision back into the editor.
+ */
+export const RecipeHistory: React.FC<RecipeHistoryProps> = ({ revisions, onRestore, isReadOnly }) => {
+  const [fromIndex, setFromIndex] = useState(Math.max(0, revisions.length - 2));
+  const [toIndex, setToIndex] = useState(revisions.length - 1);
+
+  useEffect(() => {
+    // Compare the two most recent revisions whenever a new one is saved.
+    setFromIndex(Math.max(0, revisions.length - 2));
+    setToIndex(revisions.length - 1);
+  }, [revisions.length]);
+
+  const fromRevision = revisions[fromIndex];
+  const toRevision = revisions[toIndex];
+
+  const changes = useMemo(
+    () => (fromRevision && toRevision ? diffRevisions(fromRevision, toRevision) : []),
+    [fromRevision, toRevision]
+  );
+
+  if (revisions.length === 0) return null;
+
+  const fromLevainHydration = fromRevision && getLevainHydration(fromRevision.snapshot);
+  const toLevainHydration = toRevision && getLevainHydration(toRevision.snapshot);
+
+  return (
+    <div className="mt-8 pt-6 border-t border-amber-200">
+      <h3 className="text-lg font-bold text-amber-900 mb-3">Revision History</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-amber-200 text-sm">
+          <thead className="bg-amber-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Saved</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Name</th>
+              <th scope="col" className="px-4 py-2 text-center text-xs font-bold text-amber-800 uppercase tracking-wider">From</th>
+              <th scope="col" className="px-4 py-2 text-center text-xs font-bold text-amber-800 uppercase tracking-wider">To</th>
+              {!isReadOnly && <th scope="col" className="relative px-4 py-2"><span className="sr-only">Restore</span></th>}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => (
+              <tr key={`${revision.savedAt}-${index}`}>
+                <td className="px-4 py-2 whitespace-nowrap text-gray-800">{new Date(revision.savedAt).toLocaleString()}</td>
+                <td className="px-4 py-2 text-gray-700">{revision.snapshot.name}</td>
+                <td className="px-4 py-2 text-center">
+                  <input type="radio" name="revisionFrom" checked={fromIndex === index} onChange={() => setFromIndex(index)} aria-label="Compare from this revision" />
+                </td>
+                <td className="px-4 py-2 text-center">
+                  <input type="radio" name="revisionTo" checked={toIndex === index} onChange={() => setToIndex(index)} aria-label="Compare to this revision" />
+                </td>
+                {!isReadOnly && (
+                  <td className="px-4 py-2 whitespace-nowrap text-right">
+                    <button onClick={() => onRestore(revision)} className="text-amber-700 hover:text-amber-900 font-semibold">Restore</button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {fromRevision && toRevision && fromIndex !== toIndex && (
+        <div className="mt-4 p-4 bg-amber-50 rounded-lg">
+          <h4 className="font-bold text-amber-900 mb-2">Changes</h4>
+          <IngredientChangeList
+            changes={changes}
+            fromLevainHydration={fromLevainHydration}
+            toLevainHydration={toLevainHydration}
+            emptyMessage="No ingredient changes between these revisions."
+          />
+        </div>
+      )}
+    </div>
+  );
+};
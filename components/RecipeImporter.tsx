@@ -2,7 +2,10 @@
 
 import React, { useState } from 'react';
 import { parseRecipeFromText } from '../services/geminiService';
+import { parseRecipeLocally } from '../services/localRecipeParser';
+import { validateRecipe, ValidationIssue } from '../services/recipeValidation';
 import { Recipe } from '../types';
+import { ValidationIssueList } from './ValidationIssueList';
 
 interface RecipeImporterProps {
   onImportSuccess: (recipe: Omit<Recipe, 'id' | 'isStandard'>) => void;
@@ -13,6 +16,20 @@ export const RecipeImporter: React.FC<RecipeImporterProps> = ({ onImportSuccess,
   const [text, setText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [unparsedLines, setUnparsedLines] = useState<string[]>([]);
+  // What the local parser made of the text, offered when the AI can't be used, e.g., offline or without an API key.
+  const [localFallback, setLocalFallback] = useState<Omit<Recipe, 'id' | 'isStandard'> | null>(null);
+  // A parsed recipe that failed some checks, held until the baker decides whether to import it anyway.
+  const [pendingImport, setPendingImport] = useState<{ recipe: Omit<Recipe, 'id' | 'isStandard'>; issues: ValidationIssue[] } | null>(null);
+
+  const finishImport = (recipe: Omit<Recipe, 'id' | 'isStandard'>) => {
+    const issues = validateRecipe(recipe);
+    if (issues.length === 0) {
+      onImportSuccess(recipe);
+    } else {
+      setPendingImport({ recipe, issues });
+    }
+  };
 
   const handleImport = async () => {
     if (!text.trim()) {
@@ -20,39 +37,101 @@ export const RecipeImporter: React.FC<RecipeImporterProps> = ({ onImportSuccess,
       return;
     }
     setError(null);
+    setUnparsedLines([]);
+    setLocalFallback(null);
+    setPendingImport(null);
+
+    // Simple ingredient lists are handled locally; the AI is only needed when some lines can't be parsed.
+    const localResult = parseRecipeLocally(text);
+    if (localResult.recipe && localResult.unparsedLines.length === 0) {
+      finishImport(localResult.recipe);
+      return;
+    }
+
     setIsLoading(true);
     try {
       const newRecipe = await parseRecipeFromText(text);
-      onImportSuccess(newRecipe);
+      finishImport(newRecipe);
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
       } else {
         setError('An unknown error occurred.');
       }
+      setUnparsedLines(localResult.unparsedLines);
+      setLocalFallback(localResult.recipe);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleImportLocalResult = () => {
+    if (!localFallback) return;
+    setError(null);
+    setUnparsedLines([]);
+    setLocalFallback(null);
+    finishImport(localFallback);
+  };
+
   return (
     <div className="max-w-4xl mx-auto p-4 sm:p-6 lg:p-8">
       <button onClick={onBack} className="mb-4 text-amber-700 hover:text-amber-900 font-semibold">&larr; Back to Library</button>
       <div className="bg-white rounded-lg shadow-lg p-8 border border-amber-200">
-        <h1 className="text-3xl font-bold text-amber-900 mb-2">Import Recipe with AI</h1>
-        <p className="text-gray-600 mb-6">Paste a bread recipe below, and our AI will convert it into the calculator format.</p>
+        <h1 className="text-3xl font-bold text-amber-900 mb-2">Import Recipe</h1>
+        <p className="text-gray-600 mb-6">Paste a bread recipe below. Simple ingredient lists in grams or baker's percentages are converted instantly; anything else is handed to our AI.</p>
 
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative mb-4" role="alert">
             <strong className="font-bold">Error: </strong>
             <span className="block sm:inline">{error}</span>
+            {unparsedLines.length > 0 && (
+              <>
+                <p className="mt-2 font-semibold">These lines could not be read without AI:</p>
+                <ul className="list-disc list-inside">
+                  {unparsedLines.map((line, index) => <li key={index}>{line}</li>)}
+                </ul>
+              </>
+            )}
+            {localFallback && (
+              <div className="mt-3">
+                <p className="text-sm">The rest of the recipe was read without AI. You can import it without these lines and add anything missing in the editor.</p>
+                <button
+                  onClick={handleImportLocalResult}
+                  className="mt-2 px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 transition-colors"
+                >
+                  Import Anyway
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {pendingImport && (
+          <div className="mb-4 p-4 border border-amber-300 rounded-md" role="alert">
+            <p className="font-bold text-amber-900 mb-2">Please check &ldquo;{pendingImport.recipe.name}&rdquo; before importing:</p>
+            <ValidationIssueList issues={pendingImport.issues} />
+            <p className="text-sm text-gray-600 mt-2">You can import it as it is and fix it in the editor, or change the text and try again.</p>
+            <div className="mt-3 flex gap-2">
+              <button
+                onClick={() => onImportSuccess(pendingImport.recipe)}
+                className="px-4 py-2 bg-amber-600 text-white font-semibold rounded-md hover:bg-amber-700 transition-colors"
+              >
+                Import Anyway
+              </button>
+              <button
+                onClick={() => setPendingImport(null)}
+                className="px-4 py-2 bg-amber-100 text-amber-800 font-semibold rounded-md hover:bg-amber-200 transition-colors"
+              >
+                Edit Text
+              </button>
+            </div>
           </div>
         )}
 
         <textarea
           value={text}
-          onChange={(e) => setText(e.target.value)}
-          placeholder="e.g., 900g Bread Flour, 100g Whole Wheat Flour, 750g Water, 200g Levain, 22g Salt..."
+          onChange={(e) => { setText(e.target.value); setPendingImport(null); setLocalFallback(null); }}
+          placeholder="e.g., 900g Bread Flour, 100g Whole Wheat Flour, 750g Water, 200g Levain, 22g Salt... (oz, lb, cups and spoons work too)"
           className="w-full h-64 p-4 border border-gray-300 rounded-md shadow-sm focus:ring-amber-500 focus:border-amber-500 transition text-gray-900 placeholder-gray-500"
           disabled={isLoading}
         />
@@ -4,37 +4,36 @@
 
 import React from 'react';
 import { Recipe } from '../types';
-import { ALL_INGREDIENTS } from '../constants';
+import { calculateDoughComposition, getFlourTypes } from '../services/recipeCalculations';
 
 interface RecipeListItemProps {
   recipe: Recipe;
   onSelect: () => void;
+  /** Whether the recipe is picked for comparison. Leave undefined outside compare mode. */
+  isSelected?: boolean;
 }
 
-// Create a lookup map for performance, so it's not regenerated on every render.
-const ingredientInfoMap = new Map(ALL_INGREDIENTS.map(i => [i.name, i]));
-
 /**
  * A list item component that displays a preview of a recipe.
- * It shows the name, status, flour types, and hydration in a single row.
+ * It shows the name, status, tags, flour types, and hydration in a single row, with a check box in compare mode.
  */
-export const RecipeListItem: React.FC<RecipeListItemProps> = React.memo(({ recipe, onSelect }) => {
-  const flourTypes = recipe.ingredients
-    .filter(i => ingredientInfoMap.get(i.name)?.category === 'Flour')
-    .map(i => i.name.replace(' Flour', ''))
+export const RecipeListItem: React.FC<RecipeListItemProps> = React.memo(({ recipe, onSelect, isSelected }) => {
+  const flourTypes = getFlourTypes(recipe)
+    .map(name => name.replace(' Flour', ''))
     .join(' / ');
   
-  const hydration = recipe.ingredients
-    .filter(i => ingredientInfoMap.get(i.name)?.category === 'Liquid')
-    .reduce((total, ing) => total + ing.percentage, 0);
+  const { hydration } = calculateDoughComposition(recipe);
 
   return (
     <div
       onClick={onSelect}
-      className="bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow duration-200 cursor-pointer p-4 border border-amber-200 flex justify-between items-center"
-      aria-label={`View recipe for ${recipe.name}`}
+      className={`bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow duration-200 cursor-pointer p-4 border flex justify-between items-center ${isSelected ? 'border-amber-500 ring-2 ring-amber-300' : 'border-amber-200'}`}
+      aria-label={isSelected === undefined ? `View recipe for ${recipe.name}` : `Select ${recipe.name} for comparison`}
     >
-      <div className="flex items-center gap-4">
+      <div className="flex flex-wrap items-center gap-4">
+        {isSelected !== undefined && (
+          <input type="checkbox" checked={isSelected} readOnly className="pointer-events-none" aria-hidden="true" />
+        )}
         <h3 className="text-lg font-bold text-amber-900">
           {recipe.name}
         </h3>
@@ -47,6 +46,13 @@ export const RecipeListItem: React.FC<RecipeListItemProps> = React.memo(({ recip
             SAVED
           </span>
         )}
+        {recipe.tags && recipe.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {recipe.tags.map(tag => (
+              <span key={tag} className="text-xs font-semibold bg-sky-100 text-sky-800 px-2 py-0.5 rounded-full">{tag}</span>
+            ))}
+          </div>
+        )}
       </div>
       <div className="hidden sm:flex items-center gap-6 text-sm text-gray-700">
         <div>
@@ -0,0 +1,51 @@
+/**
+ * @file Shows which recipe a copied recipe came from and how its formula differs from the original.
+ */
+
+import React, { useMemo } from 'react';
+import { Recipe } from '../types';
+import { diffIngredients } from '../services/recipeHistory';
+import { getLevainHydration, getOverallFormula } from '../services/recipeCalculations';
+import { IngredientChangeList } from './IngredientChangeList';
+
+interface RecipeOriginProps {
+  /** The copy, as currently being edited. */
+  recipe: Recipe;
+  /** The recipe it was copied from, or undefined if that is no longer in the library. */
+  parent: Recipe | undefined;
+  onOpenParent: (parent: Recipe) => void;
+}
+
+/**
+ * Links back to the original recipe and compares the copy's baker's percentages with it, updating as the copy is edited.
+ */
+export const RecipeOrigin: React.FC<RecipeOriginProps> = ({ recipe, parent, onOpenParent }) => {
+  const changes = useMemo(
+    () => (parent ? diffIngredients(getOverallFormula(parent), getOverallFormula(recipe)) : []),
+    [parent, recipe.ingredients, recipe.components]
+  );
+
+  return (
+    <div className="mb-4 p-4 bg-amber-50 rounded-lg border border-amber-100">
+      {parent ? (
+        <>
+          <p className="text-sm text-gray-700 mb-2">
+            Based on{' '}
+            <button onClick={() => onOpenParent(parent)} className="font-semibold text-amber-700 hover:text-amber-900 underline">
+              {parent.name}
+            </button>
+          </p>
+          <h4 className="text-sm font-bold text-amber-900 mb-1">Changes from the original</h4>
+          <IngredientChangeList
+            changes={changes}
+            fromLevainHydration={getLevainHydration(parent)}
+            toLevainHydration={getLevainHydration(recipe)}
+            emptyMessage="The formula is the same as the original."
+          />
+        </>
+      ) : (
+        <p className="text-sm text-gray-600">Based on a recipe that is no longer in the library.</p>
+      )}
+    </div>
+  );
+};
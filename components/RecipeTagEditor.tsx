@@ -0,0 +1,90 @@
+/**
+ * @file Edits a recipe's tags and the collections it belongs to.
+ */
+
+import React, { useState } from 'react';
+import { addTags } from '../services/recipeOrganization';
+
+interface RecipeTagEditorProps {
+  tags: string[];
+  collections: string[];
+  /** Every collection in the library, for the membership check boxes. */
+  availableCollections: string[];
+  isReadOnly: boolean;
+  onTagsChange: (tags: string[]) => void;
+  onCollectionsChange: (collections: string[]) => void;
+}
+
+/**
+ * Shows the recipe's tags as removable chips with an input for new ones (comma-separated or one per Enter),
+ * and a check box for each collection. Read-only recipes show their tags only.
+ */
+export const RecipeTagEditor: React.FC<RecipeTagEditorProps> = ({ tags, collections, availableCollections, isReadOnly, onTagsChange, onCollectionsChange }) => {
+  const [tagInput, setTagInput] = useState('');
+
+  const commitTagInput = () => {
+    if (!tagInput.trim()) return;
+    onTagsChange(addTags(tags, tagInput));
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitTagInput();
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      onTagsChange(tags.slice(0, -1));
+    }
+  };
+
+  const toggleCollection = (name: string, checked: boolean) => {
+    onCollectionsChange(checked ? [...collections, name] : collections.filter(c => c !== name));
+  };
+
+  if (isReadOnly && tags.length === 0) return null;
+
+  return (
+    <div className="mb-6 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold text-amber-800">Tags:</span>
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 text-xs font-semibold bg-sky-100 text-sky-800 px-2 py-1 rounded-full">
+            {tag}
+            {!isReadOnly && (
+              <button onClick={() => onTagsChange(tags.filter(t => t !== tag))} className="text-sky-600 hover:text-sky-900" aria-label={`Remove tag ${tag}`}>
+                &times;
+              </button>
+            )}
+          </span>
+        ))}
+        {!isReadOnly && (
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={handleTagKeyDown}
+            onBlur={commitTagInput}
+            placeholder="Add a tag…"
+            className="flex-grow min-w-[8rem] p-1 text-sm border-b border-gray-300 bg-transparent focus:outline-none focus:border-amber-500"
+            aria-label="Add a tag"
+          />
+        )}
+      </div>
+      {!isReadOnly && availableCollections.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-700">
+          <span className="font-semibold text-amber-800">Collections:</span>
+          {availableCollections.map(name => (
+            <label key={name} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={collections.includes(name)}
+                onChange={(e) => toggleCollection(name, e.target.checked)}
+              />
+              {name}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,47 +3,221 @@
  */
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Recipe, Ingredient, NutritionInfo } from '../types';
-import { getNutritionalInformation } from '../services/geminiService';
-import { ALL_INGREDIENTS } from '../constants';
+import { Recipe, Ingredient, NutritionReport, WeightUnit, RecipeRevision, BakeLogEntry, RecipeComponent, RecipeComponentKind, IngredientPrice, PantryItem } from '../types';
+import { getRecipeNutrition } from '../services/nutritionService';
+import { LEVAIN_INGREDIENT_NAME, DEFAULT_SERVING_SIZE_GRAMS, COMPONENT_TEMPLATES } from '../constants';
+import {
+  calculateDoughComposition,
+  getLevainHydration,
+  getCategoryGrams,
+  getCombinedIngredients,
+  getComponentIngredientsInRecipe,
+  getTotalDoughPercentage,
+  getTotalPercentage,
+} from '../services/recipeCalculations';
+import { WEIGHT_UNITS, formatWeight } from '../services/unitConversion';
+import { calculateProductionDoughWeight, formatScaledGrams } from '../services/productionScaling';
+import { getAllIngredients, getIngredientInfo } from '../services/ingredientCatalog';
+import { restoreRevision } from '../services/recipeHistory';
+import { validateRecipe, hasValidationErrors } from '../services/recipeValidation';
+import { createEditHistory, recordEdit, replacePresent, undo, redo } from '../services/editHistory';
+import { RecipeDraft, saveDraft, loadDraft, clearDraft } from '../services/recipeDrafts';
+import { RecipeHistory } from './RecipeHistory';
+import { BakeJournal } from './BakeJournal';
+import { SchedulePlanner } from './SchedulePlanner';
+import { ExportMenu } from './ExportMenu';
+import { ProductionSheet } from './ProductionSheet';
+import { DdtCalculator } from './DdtCalculator';
+import { RecipeTagEditor } from './RecipeTagEditor';
+import { RecipeOrigin } from './RecipeOrigin';
+import { ValidationIssueList } from './ValidationIssueList';
+import { ComponentBuildTable } from './ComponentBuildTable';
+import { OverallFormulaTable } from './OverallFormulaTable';
+import { RecipeCostPanel } from './RecipeCostPanel';
+import { PantryCheck } from './PantryCheck';
+
+// How long after the last edit the draft is written to this device.
+const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
+// Text fields outside the recipe's own fields, such as bake notes or a tag being typed, keep the browser's own undo.
+const isOtherTextField = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.matches('input, textarea, select')) &&
+  !target.closest('[data-recipe-field]');
 
 interface RecipeViewProps {
   recipe: Recipe;
+  /** The library the recipe is open from: the user's id, or the guest library's. Keeps each library's drafts apart. */
+  libraryId: string;
+  revisions: RecipeRevision[];
+  /** Every collection in the library, so the recipe can be added to any of them. */
+  collections: string[];
+  /** The recipe this one was copied from, if it was copied and the original is still in the library. */
+  parentRecipe?: Recipe;
+  bakeLog: BakeLogEntry[];
+  /** The user's ingredient price history, used to cost the batch and past bakes. */
+  prices: IngredientPrice[];
+  currency: string;
+  /** The pantry, or undefined to leave out the pantry check (e.g., while signed out). */
+  pantry?: PantryItem[];
+  /** Adds a bake of the recipe at the given dough weight to the planned bakes. */
+  onPlanBake: (recipeId: string, doughWeightGrams: number) => void;
+  /** Deducts a batch of the recipe, already scaled, from the pantry. */
+  onConfirmBake: (scaledRecipe: Recipe) => void;
+  onAddBakeEntry: (entry: BakeLogEntry) => void;
+  onDeleteBakeEntry: (entryId: string) => void;
   onSave: (recipe: Recipe) => void;
   onDelete: (id: string) => void;
+  /** Copies the recipe into the user's library as a new, editable recipe. */
+  onSaveAsCopy: (recipe: Recipe) => void;
+  onOpenRecipe: (recipe: Recipe) => void;
   onBack: () => void;
 }
 
-export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete, onBack }) => {
-  const [editedRecipe, setEditedRecipe] = useState<Recipe>(() => JSON.parse(JSON.stringify(recipe)));
-  const [nutrition, setNutrition] = useState<NutritionInfo | null>(null);
+export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, libraryId, revisions, collections, parentRecipe, bakeLog, prices, currency, pantry, onPlanBake, onConfirmBake, onAddBakeEntry, onDeleteBakeEntry, onSave, onDelete, onSaveAsCopy, onOpenRecipe, onBack }) => {
+  const [history, setHistory] = useState(() => createEditHistory<Recipe>(JSON.parse(JSON.stringify(recipe))));
+  const editedRecipe = history.present;
+  // The recipe as last loaded or saved, which the edits are compared with to tell whether there are unsaved changes.
+  const [savedRecipe, setSavedRecipe] = useState<Recipe>(history.present);
+  // A draft left over from an earlier visit, waiting for the baker to restore or discard it.
+  const [pendingDraft, setPendingDraft] = useState<RecipeDraft | null>(null);
+  const [nutrition, setNutrition] = useState<NutritionReport | null>(null);
+  const [servingSizeGrams, setServingSizeGrams] = useState(DEFAULT_SERVING_SIZE_GRAMS);
+  const [useAiNutritionFallback, setUseAiNutritionFallback] = useState(false);
+  const [displayUnit, setDisplayUnit] = useState<WeightUnit>('g');
+  const [isProductionMode, setIsProductionMode] = useState(false);
+  const [pieceCount, setPieceCount] = useState(12);
+  const [pieceWeightGrams, setPieceWeightGrams] = useState(850);
+  const [lossPercentage, setLossPercentage] = useState(2);
+  const [isPrintView, setIsPrintView] = useState(false);
   const [isNutritionLoading, setIsNutritionLoading] = useState(false);
   const [nutritionError, setNutritionError] = useState<string | null>(null);
 
   useEffect(() => {
     // When the recipe prop changes, create a deep copy and scale it to a 1000g dough weight.
-    const newRecipe = JSON.parse(JSON.stringify(recipe));
+    const newRecipe: Recipe = JSON.parse(JSON.stringify(recipe));
     
-    const totalPercentage = newRecipe.ingredients.reduce((acc: number, ing: Ingredient) => acc + ing.percentage, 0);
+    const totalPercentage = getTotalDoughPercentage(newRecipe);
     
     if (totalPercentage > 0) {
         const targetDoughWeight = 1000; // Default dough weight
         newRecipe.totalFlourGrams = (targetDoughWeight / totalPercentage) * 100;
     }
 
-    setEditedRecipe(newRecipe);
+    setHistory(createEditHistory(newRecipe));
+    setSavedRecipe(newRecipe);
+    const draft = recipe.isStandard ? null : loadDraft(libraryId, recipe.id);
+    setPendingDraft(draft && JSON.stringify(draft.recipe) !== JSON.stringify(newRecipe) ? draft : null);
     setNutrition(null);
     setNutritionError(null);
-  }, [recipe]);
+    setIsProductionMode(false);
+    setIsPrintView(false);
+  }, [recipe, libraryId]);
 
   const isReadOnly = useMemo(() => recipe.isStandard, [recipe.isStandard]);
   
-  const totalDoughWeight = useMemo(() => {
-    const totalPercentage = editedRecipe.ingredients.reduce((acc, ing) => acc + ing.percentage, 0);
-    return (totalPercentage / 100) * editedRecipe.totalFlourGrams;
-  }, [editedRecipe.ingredients, editedRecipe.totalFlourGrams]);
+  const totalDoughWeight = useMemo(
+    () => (getTotalDoughPercentage(editedRecipe) / 100) * editedRecipe.totalFlourGrams,
+    [editedRecipe.ingredients, editedRecipe.components, editedRecipe.totalFlourGrams]
+  );
+
+  const components = editedRecipe.components ?? [];
+
+  const composition = useMemo(() => calculateDoughComposition(editedRecipe), [editedRecipe]);
+
+  const hasLevain = useMemo(
+    () => getCombinedIngredients(editedRecipe).some(ing => ing.name === LEVAIN_INGREDIENT_NAME),
+    [editedRecipe.ingredients, editedRecipe.components]
+  );
+
+  const validationIssues = useMemo(() => validateRecipe(editedRecipe), [editedRecipe]);
+
+  const flaggedIngredients = useMemo(
+    () => new Set(validationIssues.map(issue => issue.ingredientName).filter(Boolean)),
+    [validationIssues]
+  );
+
+  const hasChanges = useMemo(
+    () => !isReadOnly && JSON.stringify(savedRecipe) !== JSON.stringify(editedRecipe),
+    [isReadOnly, savedRecipe, editedRecipe]
+  );
+
+  // Applies an edit to the recipe and records it for undo. Edits with the same key in quick succession,
+  // such as typing into one field, are undone together.
+  const setEditedRecipe = (update: Recipe | ((prev: Recipe) => Recipe), editKey?: string) => {
+    setHistory(prev => recordEdit(prev, typeof update === 'function' ? update(prev.present) : update, editKey));
+  };
 
-  const hasChanges = useMemo(() => JSON.stringify(recipe) !== JSON.stringify(editedRecipe), [recipe, editedRecipe]);
+  const handleUndo = () => setHistory(undo);
+  const handleRedo = () => setHistory(redo);
+
+  useEffect(() => {
+    if (isReadOnly || isPrintView) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isOtherTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isReadOnly, isPrintView]);
+
+  useEffect(() => {
+    // Keep unsaved edits on this device shortly after each change, and drop the draft once they are undone.
+    // A draft waiting to be restored is left alone until the baker decides what to do with it, and right after
+    // switching recipes the edits still belong to the previous one.
+    if (pendingDraft || editedRecipe.id !== recipe.id) return;
+    if (!hasChanges) {
+      if (history.past.length > 0) clearDraft(libraryId, recipe.id);
+      return;
+    }
+    const timer = setTimeout(() => saveDraft(libraryId, editedRecipe), DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [libraryId, recipe.id, editedRecipe, hasChanges, pendingDraft, history.past.length]);
+
+  useEffect(() => {
+    // Ask before the tab is closed or reloaded with unsaved changes. The draft is kept either way.
+    if (!hasChanges) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasChanges]);
+
+  // Asks whether to discard unsaved changes before leaving the recipe. Returns true if it is fine to leave.
+  const confirmLeave = (): boolean => {
+    if (!hasChanges) return true;
+    if (!window.confirm(`You have unsaved changes to "${editedRecipe.name}". Leave without saving them?`)) return false;
+    clearDraft(libraryId, recipe.id);
+    return true;
+  };
+
+  const handleBack = () => {
+    if (confirmLeave()) onBack();
+  };
+
+  const handleOpenRecipe = (other: Recipe) => {
+    if (confirmLeave()) onOpenRecipe(other);
+  };
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    setEditedRecipe(pendingDraft.recipe);
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    clearDraft(libraryId, recipe.id);
+    setPendingDraft(null);
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     if (isReadOnly) return;
@@ -51,21 +225,44 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
     setEditedRecipe(prev => ({
       ...prev,
       [name]: value,
-    }));
+    }), name);
+  };
+
+  const productionDoughWeight = useMemo(
+    () => calculateProductionDoughWeight(pieceCount, pieceWeightGrams, lossPercentage),
+    [pieceCount, pieceWeightGrams, lossPercentage]
+  );
+
+  const scaleToDoughWeight = (prev: Recipe, newDoughWeight: number): Recipe => {
+    const totalPercentage = getTotalDoughPercentage(prev);
+    if (totalPercentage <= 0) return prev;
+    return {
+      ...prev,
+      totalFlourGrams: (newDoughWeight / totalPercentage) * 100,
+    };
   };
 
+  useEffect(() => {
+    // In production mode the dough weight follows the pieces, so re-scale whenever the formula changes too.
+    // The re-scaling follows from the production settings rather than an edit, so it isn't an undo step of its own.
+    if (isProductionMode && !isReadOnly) {
+      setHistory(prev => replacePresent(prev, scaleToDoughWeight(prev.present, productionDoughWeight)));
+    }
+  }, [isProductionMode, isReadOnly, productionDoughWeight, editedRecipe.ingredients, editedRecipe.components]);
+
   const handleTotalDoughWeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (isReadOnly) return;
     const newDoughWeight = Math.max(0, Number(e.target.value));
-    const totalPercentage = editedRecipe.ingredients.reduce((acc, ing) => acc + ing.percentage, 0);
+    setEditedRecipe(prev => scaleToDoughWeight(prev, newDoughWeight), 'totalDoughWeight');
+  };
 
-    if (totalPercentage > 0) {
-        const newTotalFlourGrams = (newDoughWeight / totalPercentage) * 100;
-        setEditedRecipe(prev => ({
-            ...prev,
-            totalFlourGrams: newTotalFlourGrams,
-        }));
-    }
+  const handleLevainHydrationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (isReadOnly) return;
+    const newHydration = Math.max(0, Number(e.target.value));
+    setEditedRecipe(prev => ({
+      ...prev,
+      levainHydration: newHydration,
+    }), 'levainHydration');
   };
 
   const handleIngredientChange = (index: number, field: keyof Ingredient, value: string | number) => {
@@ -78,7 +275,7 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
       newIngredient.name = String(value);
     }
     newIngredients[index] = newIngredient;
-    setEditedRecipe(prev => ({ ...prev, ingredients: newIngredients }));
+    setEditedRecipe(prev => ({ ...prev, ingredients: newIngredients }), `ingredient-${index}-${field}`);
   };
 
   const addIngredient = () => {
@@ -98,13 +295,48 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
     }));
   };
 
+  const addComponent = (kind: RecipeComponentKind) => {
+    if (isReadOnly) return;
+    const component: RecipeComponent = JSON.parse(JSON.stringify(COMPONENT_TEMPLATES[kind]));
+    setEditedRecipe(prev => ({ ...prev, components: [...(prev.components ?? []), component] }));
+  };
+
+  const updateComponent = (index: number, component: RecipeComponent) => {
+    if (isReadOnly) return;
+    setEditedRecipe(prev => ({
+      ...prev,
+      components: (prev.components ?? []).map((c, i) => i === index ? component : c),
+    }), `component-${index}`);
+  };
+
+  const removeComponent = (index: number) => {
+    if (isReadOnly) return;
+    setEditedRecipe(prev => {
+      const remaining = (prev.components ?? []).filter((_, i) => i !== index);
+      return { ...prev, components: remaining.length > 0 ? remaining : undefined };
+    });
+  };
+
   const handleSave = () => {
+    if (hasValidationErrors(validationIssues) &&
+        !window.confirm(`This formula has errors:\n\n${validationIssues.filter(i => i.severity === 'error').map(i => i.message).join('\n')}\n\nSave anyway?`)) {
+      return;
+    }
     onSave(editedRecipe);
+    setSavedRecipe(editedRecipe);
+    clearDraft(libraryId, recipe.id);
     alert('Recipe saved!');
   };
 
+  const handleRestoreRevision = (revision: RecipeRevision) => {
+    if (isReadOnly) return;
+    setEditedRecipe(prev => restoreRevision(prev, revision));
+    alert(`Revision from ${new Date(revision.savedAt).toLocaleString()} loaded. Save to keep it.`);
+  };
+
   const handleDelete = () => {
     if (window.confirm(`Are you sure you want to delete "${recipe.name}"? This action cannot be undone.`)) {
+      clearDraft(libraryId, recipe.id);
       onDelete(recipe.id);
     }
   };
@@ -114,8 +346,8 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
     setNutritionError(null);
     setNutrition(null);
     try {
-      const info = await getNutritionalInformation(editedRecipe, 100); // 100g serving size
-      setNutrition(info);
+      const report = await getRecipeNutrition(editedRecipe, servingSizeGrams, useAiNutritionFallback);
+      setNutrition(report);
     } catch (err) {
       if (err instanceof Error) {
         setNutritionError(err.message);
@@ -127,14 +359,37 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
     }
   };
 
+  if (isPrintView) {
+    return (
+      <ProductionSheet
+        recipe={editedRecipe}
+        production={isProductionMode ? { pieceCount, pieceWeightGrams } : undefined}
+        onClose={() => setIsPrintView(false)}
+      />
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto p-4 sm:p-6 lg:p-8">
-      <button onClick={onBack} className="mb-4 text-amber-700 hover:text-amber-900 font-semibold">&larr; Back to Library</button>
+      <button onClick={handleBack} className="mb-4 text-amber-700 hover:text-amber-900 font-semibold">&larr; Back to Library</button>
       <div className="bg-white rounded-lg shadow-lg p-6 sm:p-8 border border-amber-200">
+        {pendingDraft && (
+          <div className="bg-amber-100 border-l-4 border-amber-500 text-amber-800 p-4 mb-4 flex flex-wrap justify-between items-center gap-2" role="alert">
+            <p>
+              Unsaved changes from {new Date(pendingDraft.savedAt).toLocaleString()} were kept on this device.
+              {(recipe.updatedAt ?? 0) > pendingDraft.savedAt && ' The recipe has been saved since, so restoring them replaces the newer version.'}
+            </p>
+            <div className="flex gap-2">
+              <button onClick={handleRestoreDraft} className="px-3 py-1.5 text-sm font-semibold rounded-md text-white bg-amber-600 hover:bg-amber-700">Restore</button>
+              <button onClick={handleDiscardDraft} className="px-3 py-1.5 text-sm font-semibold rounded-md text-amber-800 bg-white border border-amber-300 hover:bg-amber-50">Discard</button>
+            </div>
+          </div>
+        )}
         <div className="flex justify-between items-start mb-2">
           <input
             type="text"
             name="name"
+            data-recipe-field
             value={editedRecipe.name}
             onChange={handleChange}
             disabled={isReadOnly}
@@ -149,48 +404,171 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
         </div>
         <textarea
           name="description"
+          data-recipe-field
           value={editedRecipe.description}
           onChange={handleChange}
           disabled={isReadOnly}
           rows={2}
-          className={`text-gray-700 placeholder-gray-500 mb-6 bg-transparent w-full resize-none focus:outline-none ${!isReadOnly ? 'p-2 border border-gray-200 rounded-md focus:border-amber-500' : 'p-2'}`}
+          className={`text-gray-700 placeholder-gray-500 mb-4 bg-transparent w-full resize-none focus:outline-none ${!isReadOnly ? 'p-2 border border-gray-200 rounded-md focus:border-amber-500' : 'p-2'}`}
           placeholder="A short description of the recipe..."
         />
 
+        <RecipeTagEditor
+          tags={editedRecipe.tags ?? []}
+          collections={editedRecipe.collections ?? []}
+          availableCollections={collections}
+          isReadOnly={isReadOnly}
+          onTagsChange={(tags) => setEditedRecipe(prev => ({ ...prev, tags }))}
+          onCollectionsChange={(recipeCollections) => setEditedRecipe(prev => ({ ...prev, collections: recipeCollections }))}
+        />
+
+        {recipe.derivedFrom && <RecipeOrigin recipe={editedRecipe} parent={parentRecipe} onOpenParent={handleOpenRecipe} />}
+
         <div className="my-8 p-4 bg-amber-50 rounded-lg">
           <label htmlFor="totalDoughWeight" className="block text-lg font-bold text-amber-900 mb-2">Total Dough Weight (g)</label>
           <input
             type="number"
             id="totalDoughWeight"
             name="totalDoughWeight"
+            data-recipe-field
             value={totalDoughWeight > 0 ? totalDoughWeight.toFixed(0) : ''}
             onChange={handleTotalDoughWeightChange}
-            disabled={isReadOnly}
+            disabled={isReadOnly || isProductionMode}
             className="w-full sm:w-64 p-3 border border-gray-300 rounded-md shadow-sm text-lg text-gray-900 focus:ring-amber-500 focus:border-amber-500 disabled:bg-gray-100 disabled:text-gray-500"
             aria-label="Total Dough Weight in grams"
           />
            <p className="text-sm text-gray-600 mt-2">
             Adjust this weight to scale the entire recipe. Total flour is automatically calculated: {editedRecipe.totalFlourGrams.toFixed(1)}g.
           </p>
+          {!isReadOnly && (
+            <div className="mt-4">
+              <label className="flex items-center gap-2 text-sm font-bold text-amber-900">
+                <input
+                  type="checkbox"
+                  checked={isProductionMode}
+                  onChange={(e) => setIsProductionMode(e.target.checked)}
+                />
+                Production mode (divide &amp; scale)
+              </label>
+              {isProductionMode && (
+                <div className="mt-2 flex flex-wrap items-end gap-4 text-sm">
+                  <label className="font-semibold text-amber-900">
+                    Pieces
+                    <input
+                      type="number"
+                      value={pieceCount}
+                      onChange={(e) => setPieceCount(Math.max(0, Math.round(Number(e.target.value))))}
+                      className="mt-1 block w-24 p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+                    />
+                  </label>
+                  <span className="pb-2 text-gray-600">&times;</span>
+                  <label className="font-semibold text-amber-900">
+                    Piece weight (g)
+                    <input
+                      type="number"
+                      value={pieceWeightGrams}
+                      onChange={(e) => setPieceWeightGrams(Math.max(0, Number(e.target.value)))}
+                      className="mt-1 block w-28 p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+                    />
+                  </label>
+                  <label className="font-semibold text-amber-900">
+                    Mixing &amp; scaling loss (%)
+                    <input
+                      type="number"
+                      value={lossPercentage}
+                      onChange={(e) => setLossPercentage(Math.min(99, Math.max(0, Number(e.target.value))))}
+                      className="mt-1 block w-24 p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+                    />
+                  </label>
+                  <p className="w-full text-gray-600">
+                    Mix {productionDoughWeight.toFixed(0)}g to divide {pieceCount} &times; {pieceWeightGrams}g after {lossPercentage}% loss.
+                    Weights below are rounded for the scale.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+          {hasLevain && (
+            <div className="mt-4">
+              <label htmlFor="levainHydration" className="block text-sm font-bold text-amber-900 mb-1">Levain Hydration (%)</label>
+              <input
+                type="number"
+                id="levainHydration"
+                name="levainHydration"
+                data-recipe-field
+                value={getLevainHydration(editedRecipe)}
+                onChange={handleLevainHydrationChange}
+                disabled={isReadOnly}
+                className="w-full sm:w-32 p-2 border border-gray-300 rounded-md shadow-sm text-gray-900 focus:ring-amber-500 focus:border-amber-500 disabled:bg-gray-100 disabled:text-gray-500"
+                aria-label="Levain hydration percentage"
+              />
+            </div>
+          )}
+          <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm text-gray-800">
+            <div><span className="font-semibold text-amber-800">True Flour:</span> {formatWeight(composition.totalFlourGrams, displayUnit)}{displayUnit}</div>
+            <div><span className="font-semibold text-amber-800">True Water:</span> {formatWeight(composition.totalWaterGrams, displayUnit)}{displayUnit}</div>
+            <div><span className="font-semibold text-amber-800">True Hydration:</span> {composition.hydration.toFixed(1)}%</div>
+          </div>
+          {hasLevain && (
+            <p className="text-xs text-gray-500 mt-1">Includes the flour and water held in the Sourdough Levain.</p>
+          )}
+          {components.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">Includes the preferments and soakers.</p>
+          )}
         </div>
 
-        <div className="overflow-x-auto">
+        <div className="flex justify-end items-center gap-2 mb-2 text-sm text-gray-700">
+          <span>Show weights in:</span>
+          <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Weight display unit">
+            {WEIGHT_UNITS.map(unit => (
+              <button
+                key={unit}
+                onClick={() => setDisplayUnit(unit)}
+                className={`px-3 py-1 border border-amber-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${displayUnit === unit ? 'bg-amber-600 text-white' : 'bg-white text-amber-800 hover:bg-amber-100'}`}
+              >
+                {unit}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {components.length > 0 && (
+          <>
+            <div className="overflow-x-auto" data-recipe-field>
+              {components.map((component, index) => (
+                <ComponentBuildTable
+                  key={index}
+                  recipe={editedRecipe}
+                  component={component}
+                  displayUnit={displayUnit}
+                  isReadOnly={isReadOnly}
+                  onChange={(updated) => updateComponent(index, updated)}
+                  onRemove={() => removeComponent(index)}
+                />
+              ))}
+            </div>
+            <h3 className="text-lg font-bold text-amber-900 mb-2">Final Dough</h3>
+          </>
+        )}
+
+        <div className="overflow-x-auto" data-recipe-field>
           <table className="min-w-full divide-y divide-amber-200">
             <thead className="bg-amber-50">
               <tr>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Ingredient</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Baker's %</th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Weight (g)</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Weight ({displayUnit})</th>
                 {!isReadOnly && <th scope="col" className="relative px-6 py-3"><span className="sr-only">Remove</span></th>}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {editedRecipe.ingredients.map((ing, index) => (
-                <tr key={index}>
+                <tr key={index} className={flaggedIngredients.has(ing.name) ? 'bg-amber-50' : undefined}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {isReadOnly ? ing.name : (
                       <select value={ing.name} onChange={(e) => handleIngredientChange(index, 'name', e.target.value)} className="w-full p-2 border border-gray-300 rounded-md text-gray-900">
-                        {ALL_INGREDIENTS.map(i => <option key={i.name} value={i.name}>{i.name}</option>)}
+                        {getAllIngredients().map(i => <option key={i.name} value={i.name}>{i.name}</option>)}
+                        {!getIngredientInfo(ing.name) && <option value={ing.name}>{ing.name} (unknown)</option>}
                       </select>
                     )}
                   </td>
@@ -204,7 +582,9 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
                     />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap font-medium text-gray-800 text-sm">
-                    {((ing.percentage / 100) * editedRecipe.totalFlourGrams).toFixed(1)}
+                    {isProductionMode && displayUnit === 'g'
+                      ? formatScaledGrams((ing.percentage / 100) * editedRecipe.totalFlourGrams, ing.name)
+                      : formatWeight((ing.percentage / 100) * editedRecipe.totalFlourGrams, displayUnit)}
                   </td>
                   {!isReadOnly && (
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
@@ -213,20 +593,98 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
                   )}
                 </tr>
               ))}
+              {components.map((component, index) => {
+                const ingredientsInRecipe = getComponentIngredientsInRecipe(editedRecipe, component);
+                const percentage = getTotalPercentage(ingredientsInRecipe);
+                return (
+                  <tr key={`component-${index}`} className="bg-amber-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 italic">{component.name} (all of it)</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{percentage.toFixed(1)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap font-medium text-gray-800 text-sm">
+                      {formatWeight((percentage / 100) * editedRecipe.totalFlourGrams, displayUnit)}
+                    </td>
+                    {!isReadOnly && <td />}
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
         
+        <div className="mt-4">
+          <ValidationIssueList issues={validationIssues} />
+        </div>
+
         {!isReadOnly && (
-          <button onClick={addIngredient} className="mt-4 px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-amber-700 bg-amber-100 hover:bg-amber-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500">
-            + Add Ingredient
-          </button>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <button onClick={addIngredient} className="px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-amber-700 bg-amber-100 hover:bg-amber-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500">
+              + Add Ingredient
+            </button>
+            <button onClick={() => addComponent('preferment')} className="px-3 py-1.5 border border-amber-200 text-sm font-medium rounded-md text-amber-700 bg-white hover:bg-amber-50">
+              + Add Preferment
+            </button>
+            <button onClick={() => addComponent('soaker')} className="px-3 py-1.5 border border-amber-200 text-sm font-medium rounded-md text-amber-700 bg-white hover:bg-amber-50">
+              + Add Soaker
+            </button>
+          </div>
+        )}
+
+        {components.length > 0 && <OverallFormulaTable recipe={editedRecipe} displayUnit={displayUnit} />}
+
+        <RecipeCostPanel
+          recipe={editedRecipe}
+          prices={prices}
+          currency={currency}
+          productionPieceCount={isProductionMode ? pieceCount : undefined}
+        />
+
+        {pantry && (
+          <PantryCheck
+            recipe={editedRecipe}
+            doughWeightGrams={totalDoughWeight}
+            pantry={pantry}
+            onPlanBake={(doughWeightGrams) => onPlanBake(recipe.id, doughWeightGrams)}
+            onConfirmBake={onConfirmBake}
+          />
         )}
 
         <div className="mt-8 pt-6 border-t border-amber-200 flex flex-col sm:flex-row justify-between items-center gap-4">
           <div className="flex gap-4">
+            <ExportMenu recipes={[editedRecipe]} baseName={editedRecipe.name} />
+            <button
+              onClick={() => setIsPrintView(true)}
+              className="px-4 py-2 text-sm font-semibold text-amber-800 bg-amber-100 rounded-md hover:bg-amber-200 transition-colors"
+            >
+              Production Sheet
+            </button>
+            {isReadOnly && (
+              <button
+                onClick={() => onSaveAsCopy(recipe)}
+                className="px-6 py-2 bg-amber-600 text-white font-bold rounded-md hover:bg-amber-700 transition-colors"
+              >
+                Save as My Copy
+              </button>
+            )}
             {!isReadOnly && (
               <>
+                <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Edit history">
+                  <button
+                    onClick={handleUndo}
+                    disabled={history.past.length === 0}
+                    title="Undo (Ctrl+Z)"
+                    className="px-3 py-2 text-sm font-semibold text-amber-800 bg-amber-100 rounded-l-md hover:bg-amber-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={history.future.length === 0}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="px-3 py-2 text-sm font-semibold text-amber-800 bg-amber-100 rounded-r-md border-l border-amber-200 hover:bg-amber-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Redo
+                  </button>
+                </div>
                 <button
                   onClick={handleSave}
                   disabled={!hasChanges}
@@ -243,21 +701,43 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
               </>
             )}
           </div>
-          <button
-            onClick={handleCalculateNutrition}
-            disabled={isNutritionLoading}
-            className="px-5 py-2 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center transition-colors"
-          >
-            {isNutritionLoading ? (
-              <>
-                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Calculating...
-              </>
-            ) : 'Calculate Nutrition (AI)'}
-          </button>
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <div className="flex flex-col gap-1 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                Serving size (g)
+                <input
+                  type="number"
+                  value={servingSizeGrams}
+                  onChange={(e) => setServingSizeGrams(Math.max(1, Number(e.target.value)))}
+                  className="w-20 p-1 border border-gray-300 rounded-md text-gray-900"
+                  aria-label="Serving size in grams"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={useAiNutritionFallback}
+                  onChange={(e) => setUseAiNutritionFallback(e.target.checked)}
+                />
+                Use AI for unknown ingredients
+              </label>
+            </div>
+            <button
+              onClick={handleCalculateNutrition}
+              disabled={isNutritionLoading}
+              className="px-5 py-2 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center transition-colors"
+            >
+              {isNutritionLoading ? (
+                <>
+                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Calculating...
+                </>
+              ) : 'Calculate Nutrition'}
+            </button>
+          </div>
         </div>
         
         {nutritionError && (
@@ -269,16 +749,42 @@ export const RecipeView: React.FC<RecipeViewProps> = ({ recipe, onSave, onDelete
 
         {nutrition && (
           <div className="mt-6 p-4 border border-sky-200 bg-sky-50 rounded-lg">
-            <h3 className="text-lg font-bold text-sky-800 mb-2">Nutritional Information (per 100g serving)</h3>
+            <h3 className="text-lg font-bold text-sky-800 mb-2">Nutritional Information (per {nutrition.servingSizeGrams}g serving)</h3>
             <ul className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-2 text-sm">
-              <li><strong>Calories:</strong> {nutrition.calories.toFixed(0)}</li>
-              <li><strong>Protein:</strong> {nutrition.proteinGrams.toFixed(1)}g</li>
-              <li><strong>Fat:</strong> {nutrition.fatGrams.toFixed(1)}g</li>
-              <li><strong>Carbs:</strong> {nutrition.carbohydrateGrams.toFixed(1)}g</li>
-              <li><strong>Fiber:</strong> {nutrition.fiberGrams.toFixed(1)}g</li>
+              <li><strong>Calories:</strong> {nutrition.nutrition.calories.toFixed(0)}</li>
+              <li><strong>Protein:</strong> {nutrition.nutrition.proteinGrams.toFixed(1)}g</li>
+              <li><strong>Fat:</strong> {nutrition.nutrition.fatGrams.toFixed(1)}g</li>
+              <li><strong>Carbs:</strong> {nutrition.nutrition.carbohydrateGrams.toFixed(1)}g</li>
+              <li><strong>Fiber:</strong> {nutrition.nutrition.fiberGrams.toFixed(1)}g</li>
             </ul>
+            <p className="text-xs text-gray-600 mt-2">
+              Based on an estimated baked weight of {nutrition.bakedWeightGrams.toFixed(0)}g after water loss.
+            </p>
+            {nutrition.aiEstimatedIngredients.length > 0 && (
+              <p className="text-xs text-gray-600 mt-1">AI-estimated: {nutrition.aiEstimatedIngredients.join(', ')}.</p>
+            )}
+            {nutrition.uncoveredIngredients.length > 0 && (
+              <p className="text-xs text-red-700 mt-1">No nutrient data for: {nutrition.uncoveredIngredients.join(', ')}. These are excluded.</p>
+            )}
           </div>
         )}
+
+        <SchedulePlanner recipe={editedRecipe} />
+
+        <DdtCalculator waterGrams={getCategoryGrams(editedRecipe, 'Liquid')} hasLevain={hasLevain} />
+
+        <RecipeHistory revisions={revisions} onRestore={handleRestoreRevision} isReadOnly={isReadOnly} />
+
+        <BakeJournal
+          recipe={recipe}
+          revisions={revisions}
+          entries={bakeLog}
+          prices={prices}
+          currency={currency}
+          currentDoughWeightGrams={totalDoughWeight}
+          onAddEntry={onAddBakeEntry}
+          onDeleteEntry={onDeleteBakeEntry}
+        />
       </div>
     </div>
   );
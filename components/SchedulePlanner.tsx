@@ -0,0 +1,136 @@
+/**
+ * @file A component that plans a bake's fermentation schedule back from a target bake time.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Recipe, ScheduleStageId } from '../types';
+import {
+  SCHEDULE_STAGES,
+  REFERENCE_DOUGH_TEMPERATURE_C,
+  estimateStageDurations,
+  buildSchedule,
+} from '../services/fermentationSchedule';
+import { formatDuration, toLocalInputValue } from '../services/dateTime';
+
+interface SchedulePlannerProps {
+  recipe: Recipe;
+}
+
+// Defaults the target to 9:00 tomorrow morning.
+const getDefaultTarget = (): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return toLocalInputValue(date);
+};
+
+const formatClockTime = (date: Date): string =>
+  date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Shows a timeline from levain build to bake that finishes at the chosen time.
+ * Stage durations are estimated from the recipe's leavening and the dough temperature,
+ * and any stage can be overridden, which recalculates the clock times.
+ */
+export const SchedulePlanner: React.FC<SchedulePlannerProps> = ({ recipe }) => {
+  const [target, setTarget] = useState(getDefaultTarget);
+  const [doughTemperatureC, setDoughTemperatureC] = useState(REFERENCE_DOUGH_TEMPERATURE_C);
+  const [overrides, setOverrides] = useState<Partial<Record<ScheduleStageId, number>>>({});
+
+  const estimates = useMemo(
+    () => estimateStageDurations(recipe, doughTemperatureC),
+    [recipe, doughTemperatureC]
+  );
+
+  const durations = useMemo(
+    () => ({ ...estimates, ...overrides }) as Record<ScheduleStageId, number>,
+    [estimates, overrides]
+  );
+
+  const schedule = useMemo(() => {
+    const targetDate = new Date(target);
+    if (isNaN(targetDate.getTime())) return [];
+    return buildSchedule(targetDate, durations);
+  }, [target, durations]);
+
+  const handleDurationChange = (id: ScheduleStageId, value: string) => {
+    setOverrides(prev => ({ ...prev, [id]: Math.max(0, Number(value)) }));
+  };
+
+  const handleResetDuration = (id: ScheduleStageId) => {
+    setOverrides(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-amber-200">
+      <h3 className="text-lg font-bold text-amber-900 mb-3">Bake Schedule</h3>
+      <div className="flex flex-col sm:flex-row gap-4 mb-4">
+        <label className="text-sm font-semibold text-amber-900">
+          Out of the oven at
+          <input
+            type="datetime-local"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="mt-1 block p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+          />
+        </label>
+        <label className="text-sm font-semibold text-amber-900">
+          Dough temperature (°C)
+          <input
+            type="number"
+            value={doughTemperatureC}
+            onChange={(e) => setDoughTemperatureC(Number(e.target.value))}
+            className="mt-1 block w-28 p-2 border border-gray-300 rounded-md text-gray-900 font-normal"
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-amber-200 text-sm">
+          <thead className="bg-amber-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Stage</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Minutes</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">Start</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-amber-800 uppercase tracking-wider">End</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {SCHEDULE_STAGES.map(({ id, label }) => {
+              const stage = schedule.find(s => s.id === id);
+              const isOverridden = overrides[id] !== undefined;
+              return (
+                <tr key={id} className={stage ? '' : 'text-gray-400'}>
+                  <td className="px-4 py-2 whitespace-nowrap font-medium">{label}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <input
+                      type="number"
+                      value={durations[id]}
+                      onChange={(e) => handleDurationChange(id, e.target.value)}
+                      className={`w-24 p-1 border rounded-md text-gray-900 ${isOverridden ? 'border-amber-500' : 'border-gray-300'}`}
+                      aria-label={`${label} duration in minutes`}
+                    />
+                    <span className="ml-2 text-xs text-gray-500">{formatDuration(durations[id])}</span>
+                    {isOverridden && (
+                      <button onClick={() => handleResetDuration(id)} className="ml-2 text-xs text-amber-700 hover:text-amber-900">
+                        Reset
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">{stage ? formatClockTime(stage.start) : 'Skipped'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{stage ? formatClockTime(stage.end) : ''}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Estimates assume fermentation roughly doubles in speed for every 8°C warmer. Edit any stage to match your kitchen.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+/**
+ * @file Lists the problems found when checking a recipe's formula.
+ */
+
+import React from 'react';
+import { ValidationIssue } from '../services/recipeValidation';
+
+interface ValidationIssueListProps {
+  issues: ValidationIssue[];
+}
+
+/**
+ * Shows errors in red and warnings in amber. Renders nothing when there are no issues.
+ */
+export const ValidationIssueList: React.FC<ValidationIssueListProps> = ({ issues }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-1 text-sm" aria-label="Formula checks">
+      {issues.map((issue, index) => (
+        <li
+          key={`${issue.code}-${issue.ingredientName ?? ''}-${index}`}
+          className={`px-3 py-2 rounded-md border-l-4 ${issue.severity === 'error' ? 'bg-red-50 border-red-500 text-red-800' : 'bg-amber-50 border-amber-400 text-amber-900'}`}
+        >
+          <span className="font-bold">{issue.severity === 'error' ? 'Error: ' : 'Warning: '}</span>
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+};
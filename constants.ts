@@ -2,7 +2,12 @@
  * @file Contains constant data for the application.
  */
 
-import { IngredientInfo } from './types';
+import { IngredientInfo, IngredientCategory, PercentageRange, RecipeComponent, RecipeComponentKind } from './types';
+
+/**
+ * All ingredient categories, in the order they are presented to the user.
+ */
+export const INGREDIENT_CATEGORIES: IngredientCategory[] = ['Flour', 'Liquid', 'Leavening', 'Enrichment', 'Flavor', 'Inclusion'];
 
 /**
  * A comprehensive list of all possible ingredients available in the app.
@@ -10,19 +15,131 @@ import { IngredientInfo } from './types';
  * This list is used for populating dropdowns in the recipe editor and for the AI parsing model.
  */
 export const ALL_INGREDIENTS: IngredientInfo[] = [
-  { name: 'White Flour', category: 'Flour' },
-  { name: 'Whole Wheat Flour', category: 'Flour' },
-  { name: 'Other Flour', category: 'Flour' },
-  { name: 'Water', category: 'Liquid' },
-  { name: 'Milk', category: 'Liquid' },
-  { name: 'Buttermilk', category: 'Liquid' },
-  { name: 'Sourdough Levain', category: 'Leavening' },
-  { name: 'Fresh Yeast', category: 'Leavening' },
-  { name: 'Dried Yeast', category: 'Leavening' },
-  { name: 'Salt', category: 'Flavor' },
-  { name: 'Sugar / Honey / Malt', category: 'Flavor' },
-  { name: 'Diastatic Malt Powder', category: 'Enrichment' },
-  { name: 'Butter or Oil', category: 'Enrichment' },
-  { name: 'Inclusion 1', category: 'Inclusion' },
-  { name: 'Inclusion 2', category: 'Inclusion' },
+  { name: 'White Flour', category: 'Flour', density: 0.53 },
+  { name: 'Whole Wheat Flour', category: 'Flour', density: 0.51 },
+  { name: 'Other Flour', category: 'Flour', density: 0.43 },
+  { name: 'Water', category: 'Liquid', waterContent: 1, density: 1 },
+  { name: 'Milk', category: 'Liquid', waterContent: 0.87, density: 1.03 },
+  { name: 'Buttermilk', category: 'Liquid', waterContent: 0.9, density: 1.03 },
+  { name: 'Sourdough Levain', category: 'Leavening', density: 0.96 },
+  { name: 'Fresh Yeast', category: 'Leavening', density: 0.6, scalingPrecisionGrams: 0.1 },
+  { name: 'Dried Yeast', category: 'Leavening', density: 0.6, scalingPrecisionGrams: 0.1 },
+  { name: 'Salt', category: 'Flavor', density: 1.2, scalingPrecisionGrams: 0.1 },
+  { name: 'Sugar / Honey / Malt', category: 'Flavor', density: 0.85 },
+  { name: 'Diastatic Malt Powder', category: 'Enrichment', density: 0.6, scalingPrecisionGrams: 0.1 },
+  { name: 'Butter or Oil', category: 'Enrichment', density: 0.93 },
+  { name: 'Inclusion 1', category: 'Inclusion', density: 0.6 },
+  { name: 'Inclusion 2', category: 'Inclusion', density: 0.6 },
 ];
+
+/**
+ * The name of the ingredient that represents a sourdough starter. Its weight is split into flour and water
+ * according to the recipe's levain hydration when calculating true hydration.
+ */
+export const LEVAIN_INGREDIENT_NAME = 'Sourdough Levain';
+
+/**
+ * The levain hydration assumed for recipes that don't specify one (equal parts flour and water).
+ */
+export const DEFAULT_LEVAIN_HYDRATION = 100;
+
+/**
+ * The flour a levain is assumed to be fed with, used to cost a levain that has no price of its own and to take its
+ * flour out of the pantry.
+ */
+export const LEVAIN_FLOUR_NAME = 'White Flour';
+
+/**
+ * The fraction of the dough's water that evaporates during baking, used to estimate the baked loaf weight.
+ */
+export const BAKING_WATER_LOSS = 0.2;
+
+/**
+ * The serving size used for nutrition calculations when none is specified, in grams.
+ */
+export const DEFAULT_SERVING_SIZE_GRAMS = 100;
+
+/**
+ * The name of the sweetener ingredient, which counts towards a recipe's enrichment alongside fats and milk solids.
+ */
+export const SWEETENER_INGREDIENT_NAME = 'Sugar / Honey / Malt';
+
+/**
+ * The enrichment percentage (fats, sugars and milk solids relative to flour) above which a dough is considered enriched.
+ */
+export const ENRICHED_THRESHOLD_PERCENTAGE = 5;
+
+/**
+ * The name of the salt ingredient, whose share of the total flour is shown when comparing recipes.
+ */
+export const SALT_INGREDIENT_NAME = 'Salt';
+
+/**
+ * The typical salt content of bread dough, as a percentage of the true total flour.
+ */
+export const TYPICAL_SALT_RANGE: PercentageRange = { min: 1.5, max: 3 };
+
+/**
+ * The typical baker's percentages of each leavening. Low amounts suit long, cold fermentation; high ones fast doughs.
+ */
+export const TYPICAL_LEAVENING_RANGES: Record<string, PercentageRange> = {
+  'Sourdough Levain': { min: 2, max: 50 },
+  'Fresh Yeast': { min: 0.1, max: 5 },
+  'Dried Yeast': { min: 0.05, max: 2 },
+};
+
+/**
+ * The true hydration that makes a workable dough from each flour on its own. Whole grains absorb more water.
+ * A recipe's plausible range is the average of its flours' ranges, weighted by how much of each it uses.
+ */
+export const FLOUR_HYDRATION_RANGES: Record<string, PercentageRange> = {
+  'White Flour': { min: 55, max: 90 },
+  'Whole Wheat Flour': { min: 65, max: 100 },
+  'Other Flour': { min: 55, max: 105 },
+};
+
+/**
+ * The hydration range assumed for flours from the user's own catalog.
+ */
+export const DEFAULT_FLOUR_HYDRATION_RANGE: PercentageRange = { min: 55, max: 100 };
+
+/**
+ * The starting formula for a new component of each kind, ready to be renamed and adjusted.
+ */
+export const COMPONENT_TEMPLATES: Record<RecipeComponentKind, RecipeComponent> = {
+  preferment: {
+    name: 'Poolish',
+    kind: 'preferment',
+    prefermentedFlourPercentage: 30,
+    ingredients: [
+      { name: 'White Flour', percentage: 100 },
+      { name: 'Water', percentage: 100 },
+      { name: 'Dried Yeast', percentage: 0.1 },
+    ],
+  },
+  soaker: {
+    name: 'Seed Soaker',
+    kind: 'soaker',
+    prefermentedFlourPercentage: 0,
+    ingredients: [
+      { name: 'Inclusion 1', percentage: 10 },
+      { name: 'Water', percentage: 10 },
+    ],
+  },
+};
+
+/**
+ * The currencies ingredient prices can be entered in, as ISO 4217 codes.
+ */
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'JPY'];
+
+/**
+ * The currency used until the user picks one.
+ */
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Ingredients the pantry doesn't stock: water comes from the tap, and the levain is built from the baker's starter.
+ * The flour a levain is fed with still comes from the pantry, as LEVAIN_FLOUR_NAME.
+ */
+export const UNSTOCKED_INGREDIENTS = ['Water', LEVAIN_INGREDIENT_NAME];
@@ -0,0 +1,35 @@
+/**
+ * @file Per-100g nutrient data for every ingredient in ALL_INGREDIENTS, used by the offline nutrition engine.
+ * Values are rounded from USDA FoodData Central reference foods.
+ */
+
+import { NutrientProfile } from '../types';
+
+export const ingredientNutrients: Record<string, NutrientProfile> = {
+  // Unbleached bread flour.
+  'White Flour': { calories: 361, proteinGrams: 12.0, fatGrams: 1.7, carbohydrateGrams: 72.5, fiberGrams: 2.4 },
+  'Whole Wheat Flour': { calories: 340, proteinGrams: 13.2, fatGrams: 2.5, carbohydrateGrams: 72.0, fiberGrams: 10.7 },
+  // Represents medium rye flour, the most common "other" flour.
+  'Other Flour': { calories: 349, proteinGrams: 9.4, fatGrams: 1.8, carbohydrateGrams: 75.9, fiberGrams: 14.6 },
+  'Water': { calories: 0, proteinGrams: 0, fatGrams: 0, carbohydrateGrams: 0, fiberGrams: 0 },
+  // Whole milk.
+  'Milk': { calories: 61, proteinGrams: 3.2, fatGrams: 3.3, carbohydrateGrams: 4.8, fiberGrams: 0 },
+  // Cultured low-fat buttermilk.
+  'Buttermilk': { calories: 40, proteinGrams: 3.3, fatGrams: 0.9, carbohydrateGrams: 4.8, fiberGrams: 0 },
+  // Per 100g of the flour held in the levain; its water is accounted for separately.
+  'Sourdough Levain': { calories: 361, proteinGrams: 12.0, fatGrams: 1.7, carbohydrateGrams: 72.5, fiberGrams: 2.4 },
+  // Compressed baker's yeast.
+  'Fresh Yeast': { calories: 105, proteinGrams: 8.4, fatGrams: 1.9, carbohydrateGrams: 18.1, fiberGrams: 8.1 },
+  // Active dry yeast.
+  'Dried Yeast': { calories: 325, proteinGrams: 40.4, fatGrams: 7.6, carbohydrateGrams: 41.2, fiberGrams: 26.9 },
+  'Salt': { calories: 0, proteinGrams: 0, fatGrams: 0, carbohydrateGrams: 0, fiberGrams: 0 },
+  // Granulated sugar.
+  'Sugar / Honey / Malt': { calories: 387, proteinGrams: 0, fatGrams: 0, carbohydrateGrams: 100, fiberGrams: 0 },
+  // Malted barley flour.
+  'Diastatic Malt Powder': { calories: 361, proteinGrams: 10.3, fatGrams: 1.8, carbohydrateGrams: 78.3, fiberGrams: 7.1 },
+  // Unsalted butter.
+  'Butter or Oil': { calories: 717, proteinGrams: 0.9, fatGrams: 81.1, carbohydrateGrams: 0.1, fiberGrams: 0 },
+  // Inclusions are modeled as a mix of sunflower, pumpkin and sesame seeds.
+  'Inclusion 1': { calories: 570, proteinGrams: 21.0, fatGrams: 48.0, carbohydrateGrams: 20.0, fiberGrams: 9.0 },
+  'Inclusion 2': { calories: 570, proteinGrams: 21.0, fatGrams: 48.0, carbohydrateGrams: 20.0, fiberGrams: 9.0 },
+};
@@ -0,0 +1,163 @@
+/**
+ * @file A small self-hosted HTTP server that keeps users' recipe libraries in sync across devices.
+ *
+ * Endpoints (all JSON):
+ *   GET    /api/health
+ *   GET    /api/recipes          every record, including deletions
+ *   GET    /api/recipes/:id
+ *   POST   /api/recipes          body: { recipe, updatedAt }
+ *   PUT    /api/recipes/:id      body: { recipe, baseRevision, updatedAt }
+ *   DELETE /api/recipes/:id      body: { baseRevision, updatedAt }
+ *
+ * Every endpoint but the health check needs the user's Google ID token in an `Authorization: Bearer` header.
+ * The token is verified as the app verifies it at sign-in, and the library is the one of the user it names.
+ * Writes that lose a conflict are answered with 409 and the winning record.
+ * Configure with GOOGLE_CLIENT_ID (the app's, required), PORT (default 8787), SYNC_DATA_FILE
+ * (default ./sync-data/recipes.json) and ALLOWED_ORIGIN (the app's origin, default http://localhost:5173).
+ * AUTH_JWKS and AUTH_JWKS_URL work as they do for the app.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { resolve } from 'node:path';
+import { openFileSyncStore, type SyncStore, type RecipeWrite } from './syncStore.ts';
+import { AuthError, getAuthConfig, verifyIdToken } from '../services/auth.ts';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE ?? 'sync-data/recipes.json');
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? 'http://localhost:5173';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Written without parameter properties so that Node can run this file by stripping types alone.
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<any> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'The request body is too large.');
+    chunks.push(chunk);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+};
+
+const isRecipe = (value: any): boolean =>
+  !!value && typeof value === 'object' &&
+  typeof value.name === 'string' &&
+  typeof value.totalFlourGrams === 'number' &&
+  Array.isArray(value.ingredients) &&
+  value.ingredients.every((ing: any) => ing && typeof ing.name === 'string' && typeof ing.percentage === 'number');
+
+// Reads a write from a request body. Deletions carry no recipe.
+const parseWrite = (body: any, isDelete: boolean): RecipeWrite => {
+  if (!isDelete && !isRecipe(body.recipe)) {
+    throw new HttpError(400, 'The body must contain a valid recipe.');
+  }
+  if (body.baseRevision !== undefined && typeof body.baseRevision !== 'number') {
+    throw new HttpError(400, 'baseRevision must be a number.');
+  }
+  return {
+    recipe: isDelete ? null : body.recipe,
+    baseRevision: body.baseRevision,
+    updatedAt: typeof body.updatedAt === 'number' ? body.updatedAt : Date.now(),
+  };
+};
+
+// Identifies the signed-in user from the ID token in the Authorization header.
+const authenticate = async (req: IncomingMessage): Promise<string> => {
+  const token = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) throw new HttpError(401, 'Sign in to sync your recipes.');
+  try {
+    const payload = await verifyIdToken(token, authConfig);
+    return payload.sub;
+  } catch (err) {
+    if (err instanceof AuthError) throw new HttpError(401, err.message);
+    throw err;
+  }
+};
+
+const handleRequest = async (store: SyncStore, req: IncomingMessage, res: ServerResponse) => {
+  if (req.method === 'OPTIONS') return sendJson(res, 204, null);
+
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  if (pathname === '/api/health') return sendJson(res, 200, { status: 'ok' });
+
+  const match = pathname.match(/^\/api\/recipes(?:\/([^/]+))?\/?$/);
+  if (!match) throw new HttpError(404, 'Not found.');
+  const userId = await authenticate(req);
+  const recipeId = match[1] && decodeURIComponent(match[1]);
+
+  if (!recipeId) {
+    if (req.method === 'GET') return sendJson(res, 200, { records: store.list(userId) });
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      const change = parseWrite(body, false);
+      const id = typeof body.recipe.id === 'string' && body.recipe.id ? body.recipe.id : `user-${Date.now()}`;
+      const existing = store.get(userId, id);
+      if (existing?.recipe) throw new HttpError(409, `A recipe with id ${id} already exists.`);
+      // Creating over a deletion always succeeds.
+      const result = await store.write(userId, id, { ...change, baseRevision: existing?.revision });
+      return sendJson(res, 201, result.record);
+    }
+    throw new HttpError(405, 'Method not allowed.');
+  }
+
+  switch (req.method) {
+    case 'GET': {
+      const record = store.get(userId, recipeId);
+      if (!record?.recipe) throw new HttpError(404, 'Recipe not found.');
+      return sendJson(res, 200, record);
+    }
+    case 'PUT':
+    case 'DELETE': {
+      const isDelete = req.method === 'DELETE';
+      if (isDelete && !store.get(userId, recipeId)) throw new HttpError(404, 'Recipe not found.');
+      const result = await store.write(userId, recipeId, parseWrite(await readJsonBody(req), isDelete));
+      return sendJson(res, result.status === 'accepted' ? 200 : 409, result.record);
+    }
+    default:
+      throw new HttpError(405, 'Method not allowed.');
+  }
+};
+
+const authConfig = getAuthConfig();
+if (!authConfig.clientId) {
+  console.error('Set GOOGLE_CLIENT_ID to the app\'s Google OAuth client ID, so the server can check who is syncing.');
+  process.exit(1);
+}
+const store = await openFileSyncStore(DATA_FILE);
+
+createServer((req, res) => {
+  handleRequest(store, req, res).catch(err => {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { error: err.message });
+    } else {
+      console.error(err);
+      sendJson(res, 500, { error: 'Internal server error.' });
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`Recipe sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
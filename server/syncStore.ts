@@ -0,0 +1,97 @@
+/**
+ * @file A JSON-file store for the sync server, holding each user's recipes with their revision numbers.
+ */
+
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { Recipe, SyncedRecipeRecord } from '../types.ts';
+
+/**
+ * The outcome of a write. A write is rejected as a conflict when another device changed the recipe
+ * after the writer last saw it and the writer's change is not the more recent of the two.
+ */
+export type WriteResult =
+  | { status: 'accepted'; record: SyncedRecipeRecord }
+  | { status: 'conflict'; record: SyncedRecipeRecord };
+
+/**
+ * A change to a recipe sent by a device.
+ */
+export interface RecipeWrite {
+  /** The new recipe, or null to delete it. */
+  recipe: Recipe | null;
+  /** The server revision the device last saw, if any. */
+  baseRevision?: number;
+  /** When the device made the change, in milliseconds since the Unix epoch. */
+  updatedAt: number;
+}
+
+/**
+ * Reads and writes users' recipe records.
+ */
+export interface SyncStore {
+  /** Lists every record for a user, including deletions. */
+  list: (userId: string) => SyncedRecipeRecord[];
+  get: (userId: string, recipeId: string) => SyncedRecipeRecord | undefined;
+  write: (userId: string, recipeId: string, change: RecipeWrite) => Promise<WriteResult>;
+}
+
+type StoreData = Record<string, Record<string, SyncedRecipeRecord>>;
+
+/**
+ * Decides whether a change replaces the current record: always when the device saw the latest revision,
+ * otherwise only if the change is newer (last write wins).
+ */
+const shouldAccept = (current: SyncedRecipeRecord | undefined, change: RecipeWrite): boolean =>
+  !current || change.baseRevision === current.revision || change.updatedAt > current.updatedAt;
+
+/**
+ * Opens a store backed by a JSON file, creating the file on the first write.
+ * All data is held in memory; each accepted write rewrites the file through a temporary file so that
+ * a crash mid-write never leaves it truncated.
+ * @param {string} filePath - The path of the JSON file.
+ * @returns {Promise<SyncStore>} The store.
+ */
+export const openFileSyncStore = async (filePath: string): Promise<SyncStore> => {
+  let data: StoreData = {};
+  try {
+    data = JSON.parse(await readFile(filePath, 'utf8'));
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') {
+      throw new Error(`Could not read the sync store at ${filePath}: ${err?.message ?? err}`);
+    }
+  }
+
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const persist = () => {
+    const snapshot = JSON.stringify(data);
+    pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+      await mkdir(dirname(filePath), { recursive: true });
+      const temporaryPath = `${filePath}.tmp`;
+      await writeFile(temporaryPath, snapshot, 'utf8');
+      await rename(temporaryPath, filePath);
+    });
+    return pendingWrite;
+  };
+
+  return {
+    list: (userId) => Object.values(data[userId] ?? {}),
+    get: (userId, recipeId) => data[userId]?.[recipeId],
+    write: async (userId, recipeId, change) => {
+      const records = data[userId] ?? (data[userId] = {});
+      const current = records[recipeId];
+      if (!shouldAccept(current, change)) {
+        return { status: 'conflict', record: current! };
+      }
+      const record: SyncedRecipeRecord = {
+        id: recipeId,
+        recipe: change.recipe && { ...change.recipe, id: recipeId, isStandard: false },
+        revision: (current?.revision ?? 0) + 1,
+        updatedAt: change.updatedAt,
+      };
+      records[recipeId] = record;
+      await persist();
+      return { status: 'accepted', record };
+    },
+  };
+};
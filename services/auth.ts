@@ -0,0 +1,204 @@
+/**
+ * @file Verifies Google ID tokens and keeps the signed-in session across reloads.
+ */
+
+// The sync server runs this module too, under Node's type stripping, so types are imported by file name.
+import type { User } from '../types.ts';
+
+/**
+ * A public key in JSON Web Key form, identified by its key id.
+ */
+export type VerificationKey = JsonWebKey & { kid?: string };
+
+/**
+ * Where the public keys used to check token signatures come from.
+ */
+export type VerificationKeySource = { keys: VerificationKey[] } | { jwksUrl: string };
+
+/**
+ * The settings needed to verify ID tokens.
+ */
+export interface AuthConfig {
+  /** The OAuth client ID tokens must be issued for (their `aud` claim). */
+  clientId: string;
+  /** The accepted token issuers (their `iss` claim). */
+  issuers: string[];
+  keySource: VerificationKeySource;
+}
+
+/**
+ * A signed-in user and when their session ends.
+ */
+export interface AuthSession {
+  user: User;
+  /** The Google ID token the session was started with, which the sync server checks. It expires before the session does. */
+  idToken: string;
+  /** When the session expires, in milliseconds since the Unix epoch. */
+  expiresAt: number;
+}
+
+/**
+ * Thrown when a token is malformed, has a bad signature, or was not issued for this app.
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const SESSION_STORAGE_KEY = 'authSession';
+// How long a sign-in lasts on this device. Google's ID tokens expire after an hour, so the session can't follow them.
+const SESSION_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+// Allowance for the difference between this device's clock and the issuer's.
+const CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Reads the auth settings from the environment (.env.local): GOOGLE_CLIENT_ID, and optionally AUTH_JWKS
+ * (a JSON Web Key Set to use instead of fetching Google's keys, e.g. a local test key) or AUTH_JWKS_URL.
+ * @returns {AuthConfig} The auth settings. The client ID is empty if sign-in isn't configured.
+ */
+export const getAuthConfig = (): AuthConfig => {
+  const inlineKeys = process.env.AUTH_JWKS;
+  return {
+    clientId: process.env.GOOGLE_CLIENT_ID ?? '',
+    issuers: GOOGLE_ISSUERS,
+    keySource: inlineKeys
+      ? { keys: JSON.parse(inlineKeys).keys }
+      : { jwksUrl: process.env.AUTH_JWKS_URL || GOOGLE_JWKS_URL },
+  };
+};
+
+const decodeBase64Url = (segment: string): Uint8Array => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(segment.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const decodeJsonSegment = (segment: string): any => {
+  try {
+    return JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+  } catch {
+    throw new AuthError('The sign-in token is malformed.');
+  }
+};
+
+const keyCache = new Map<string, Promise<VerificationKey[]>>();
+
+const loadKeys = (source: VerificationKeySource): Promise<VerificationKey[]> => {
+  if ('keys' in source) return Promise.resolve(source.keys);
+  let keys = keyCache.get(source.jwksUrl);
+  if (!keys) {
+    keys = fetch(source.jwksUrl)
+      .then(response => {
+        if (!response.ok) throw new Error(`The signing keys could not be fetched (${response.status}).`);
+        return response.json();
+      })
+      .then(jwks => jwks.keys as VerificationKey[]);
+    keyCache.set(source.jwksUrl, keys);
+    // Don't cache a failure, so the next sign-in retries.
+    keys.catch(() => keyCache.delete(source.jwksUrl));
+  }
+  return keys;
+};
+
+/**
+ * Verifies an RS256-signed ID token and returns its claims.
+ * The signature must match one of the configured keys, the audience must be the app's client ID,
+ * the issuer must be trusted, and the token must not have expired.
+ * @param {string} token - The encoded JWT.
+ * @param {AuthConfig} config - The auth settings.
+ * @param {number} [now] - The current time in milliseconds, for testing.
+ * @returns {Promise<Record<string, any>>} The token's claims.
+ * @throws {AuthError} If the token fails any check.
+ */
+export const verifyIdToken = async (token: string, config: AuthConfig, now: number = Date.now()): Promise<Record<string, any>> => {
+  const segments = token.split('.');
+  if (segments.length !== 3) throw new AuthError('The sign-in token is malformed.');
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeJsonSegment(encodedHeader);
+  const payload = decodeJsonSegment(encodedPayload);
+
+  if (header.alg !== 'RS256') throw new AuthError(`Unsupported token algorithm: ${header.alg}.`);
+  const keys = await loadKeys(config.keySource);
+  const jwk = keys.find(k => k.kid === header.kid) ?? (keys.length === 1 && !header.kid ? keys[0] : undefined);
+  if (!jwk) throw new AuthError('The sign-in token was signed with an unknown key.');
+
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  const isValid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    decodeBase64Url(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+  );
+  if (!isValid) throw new AuthError('The sign-in token signature is invalid.');
+
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!config.clientId || !audiences.includes(config.clientId)) {
+    throw new AuthError('The sign-in token was not issued for this app.');
+  }
+  if (!config.issuers.includes(payload.iss)) throw new AuthError('The sign-in token has an untrusted issuer.');
+
+  const nowSeconds = now / 1000;
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS <= nowSeconds) {
+    throw new AuthError('The sign-in token has expired. Please sign in again.');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > nowSeconds) {
+    throw new AuthError('The sign-in token is not valid yet.');
+  }
+  if (typeof payload.sub !== 'string' || !payload.sub) throw new AuthError('The sign-in token has no subject.');
+  return payload;
+};
+
+/**
+ * Verifies a Google credential and starts a 30-day session on this device.
+ * @param {string} credential - The ID token returned by Google Sign-In.
+ * @param {AuthConfig} [config] - The auth settings.
+ * @param {number} [now] - The current time in milliseconds.
+ * @returns {Promise<AuthSession>} The new session.
+ * @throws {AuthError} If the token fails verification.
+ */
+export const signIn = async (credential: string, config: AuthConfig = getAuthConfig(), now: number = Date.now()): Promise<AuthSession> => {
+  const payload = await verifyIdToken(credential, config, now);
+  const session: AuthSession = {
+    user: {
+      id: payload.sub,
+      name: payload.name ?? payload.email ?? 'Baker',
+      email: payload.email ?? '',
+      picture: payload.picture ?? '',
+    },
+    idToken: credential,
+    expiresAt: now + SESSION_LIFETIME_MS,
+  };
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+};
+
+/**
+ * Restores the session saved by the last sign-in, if it hasn't expired. Expired or unreadable sessions are cleared.
+ * @param {number} [now] - The current time in milliseconds.
+ * @returns {AuthSession | null} The saved session, or null if the user must sign in.
+ */
+export const restoreSession = (now: number = Date.now()): AuthSession | null => {
+  try {
+    const session: AuthSession | null = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? 'null');
+    if (
+      session && typeof session.user?.id === 'string' && typeof session.idToken === 'string' &&
+      typeof session.expiresAt === 'number' && session.expiresAt > now
+    ) {
+      return session;
+    }
+  } catch {
+    // Fall through and clear the unreadable session.
+  }
+  signOut();
+  return null;
+};
+
+/**
+ * Ends the session on this device.
+ */
+export const signOut = (): void => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
@@ -0,0 +1,52 @@
+/**
+ * @file Helpers for the bake journal, such as preparing photos for local storage.
+ */
+
+import { BakeLogEntry } from '../types';
+
+/**
+ * The longest edge, in pixels, that journal photos are scaled down to before being stored.
+ */
+const MAX_PHOTO_DIMENSION = 1024;
+
+/**
+ * Reads an image file and returns it as a JPEG data URL, scaled down so it fits in local storage.
+ * @param {File} file - The image file chosen by the user.
+ * @returns {Promise<string>} A promise that resolves to the image's data URL.
+ * @throws {Error} If the file can't be read or isn't an image.
+ */
+export const readPhotoAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error(`Could not read "${file.name}".`));
+    reader.onload = () => {
+      const image = new Image();
+      image.onerror = () => reject(new Error(`"${file.name}" is not a supported image.`));
+      image.onload = () => {
+        const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.width, image.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          resolve(reader.result as string);
+          return;
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+      };
+      image.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Returns the journal entries for a recipe, most recent bake first.
+ * @param {BakeLogEntry[]} entries - All of the user's journal entries.
+ * @param {string} recipeId - The recipe to filter by.
+ * @returns {BakeLogEntry[]} The recipe's entries.
+ */
+export const getEntriesForRecipe = (entries: BakeLogEntry[], recipeId: string): BakeLogEntry[] =>
+  entries
+    .filter(entry => entry.recipeId === recipeId)
+    .sort((a, b) => b.bakedAt.localeCompare(a.bakedAt));
@@ -0,0 +1,25 @@
+/**
+ * @file Date and duration formatting helpers shared across the app.
+ */
+
+/**
+ * Formats a duration in minutes as hours and minutes (e.g., '4h 30m').
+ * @param {number} minutes - The duration in minutes.
+ * @returns {string} The formatted duration.
+ */
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Formats a date as the value of a datetime-local input, in local time (e.g., '2024-03-16T09:00').
+ * @param {Date} date - The date to format.
+ * @returns {string} The input value.
+ */
+export const toLocalInputValue = (date: Date): string => {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
@@ -0,0 +1,79 @@
+/**
+ * @file Desired dough temperature (DDT) calculations for choosing the mixing water temperature.
+ */
+
+/**
+ * The temperatures that feed into the water temperature calculation, all in °C.
+ */
+export interface DdtInputs {
+  desiredDoughTemperatureC: number;
+  roomTemperatureC: number;
+  flourTemperatureC: number;
+  /** The levain temperature, or null for doughs without a levain. */
+  levainTemperatureC: number | null;
+  /** The temperature rise caused by mixing. */
+  frictionFactorC: number;
+  /** The coldest water available from the tap. */
+  tapColdTemperatureC: number;
+  /** The total weight of the mixing water, in grams. */
+  waterGrams: number;
+}
+
+/**
+ * The water temperature to use, and how to reach it with ice if the tap isn't cold enough.
+ */
+export interface DdtResult {
+  /** The water temperature that brings the dough to the desired temperature, in °C. */
+  waterTemperatureC: number;
+  /** The grams of ice to use in place of part of the water, or 0 when tap water is cold enough. */
+  iceGrams: number;
+  /** The grams of tap-cold water to combine with the ice. */
+  coldWaterGrams: number;
+  /** False when even all-ice water can't reach the target, and other ingredients need chilling. */
+  isAchievable: boolean;
+}
+
+/**
+ * Common friction factors for different mixing methods, in °C.
+ */
+export const FRICTION_FACTOR_PRESETS: { label: string; frictionFactorC: number }[] = [
+  { label: 'Hand mixing', frictionFactorC: 3 },
+  { label: 'Stand mixer', frictionFactorC: 12 },
+  { label: 'Spiral mixer', frictionFactorC: 14 },
+];
+
+// The heat needed to melt ice, in calories per gram.
+const ICE_LATENT_HEAT = 80;
+
+/**
+ * Calculates the water temperature needed to hit a desired dough temperature.
+ * The desired temperature is multiplied by the number of temperature factors (room, flour, friction and,
+ * when present, levain) and the known factors are subtracted. When the result is colder than the tap,
+ * part of the water is replaced with ice, balancing the heat the ice absorbs as it melts.
+ * @param {DdtInputs} inputs - The temperatures and water weight.
+ * @returns {DdtResult} The water temperature and any ice needed.
+ */
+export const calculateWaterTemperature = (inputs: DdtInputs): DdtResult => {
+  const knownTemperatures = [inputs.roomTemperatureC, inputs.flourTemperatureC, inputs.frictionFactorC];
+  if (inputs.levainTemperatureC !== null) {
+    knownTemperatures.push(inputs.levainTemperatureC);
+  }
+  const factorCount = knownTemperatures.length + 1;
+  const waterTemperatureC = inputs.desiredDoughTemperatureC * factorCount
+    - knownTemperatures.reduce((acc, t) => acc + t, 0);
+
+  if (waterTemperatureC >= inputs.tapColdTemperatureC) {
+    return { waterTemperatureC, iceGrams: 0, coldWaterGrams: inputs.waterGrams, isAchievable: true };
+  }
+
+  // Ice melting at 0°C and warming to the target absorbs the heat the tap water gives up cooling to it.
+  const targetC = Math.max(0, waterTemperatureC);
+  const iceGrams = inputs.waterGrams * (inputs.tapColdTemperatureC - targetC) / (ICE_LATENT_HEAT + inputs.tapColdTemperatureC);
+
+  return {
+    waterTemperatureC,
+    iceGrams,
+    coldWaterGrams: inputs.waterGrams - iceGrams,
+    isAchievable: waterTemperatureC >= 0,
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * @file An undo/redo history for an edited value, such as the recipe open in the editor.
+ */
+
+/**
+ * The states of an edited value: those it can be undone to, the current one, and those it can be redone to.
+ */
+export interface EditHistory<T> {
+  /** Earlier states, oldest first. */
+  past: T[];
+  present: T;
+  /** States that were undone, the next one to redo first. */
+  future: T[];
+  /** The key of the last recorded edit, used to group consecutive edits of the same field. */
+  lastEditKey?: string;
+  /** When the last edit was recorded, in milliseconds since the Unix epoch. */
+  lastEditAt: number;
+}
+
+/**
+ * The most undo steps kept. Older states are dropped.
+ */
+const MAX_UNDO_STEPS = 100;
+
+/**
+ * Edits of the same field closer together than this, such as keystrokes while typing, are undone as one step.
+ */
+const EDIT_GROUPING_MS = 1000;
+
+/**
+ * Starts a history with nothing to undo or redo.
+ * @param {T} initial - The value as first loaded.
+ * @returns {EditHistory<T>} The history.
+ */
+export const createEditHistory = <T>(initial: T): EditHistory<T> => ({ past: [], present: initial, future: [], lastEditAt: 0 });
+
+/**
+ * Records an edit, making the previous value undoable and discarding anything that could be redone.
+ * An edit with the same key as the one just before it, made within a second, is merged into that step.
+ * @param {EditHistory<T>} history - The history.
+ * @param {T} next - The edited value.
+ * @param {string} [editKey] - Identifies the field being edited; edits without a key are never merged.
+ * @param {number} [now] - The time of the edit.
+ * @returns {EditHistory<T>} The updated history, or the same history if the value didn't change.
+ */
+export const recordEdit = <T>(history: EditHistory<T>, next: T, editKey?: string, now: number = Date.now()): EditHistory<T> => {
+  if (next === history.present) return history;
+  const isSameEdit = editKey !== undefined && editKey === history.lastEditKey && now - history.lastEditAt < EDIT_GROUPING_MS;
+  return {
+    past: isSameEdit && history.past.length > 0 ? history.past : [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+    present: next,
+    future: [],
+    lastEditKey: editKey,
+    lastEditAt: now,
+  };
+};
+
+/**
+ * Replaces the current value without recording an undo step, for changes that follow from other settings
+ * rather than from an edit (e.g., re-scaling to the production dough weight).
+ * @param {EditHistory<T>} history - The history.
+ * @param {T} next - The new current value.
+ * @returns {EditHistory<T>} The updated history.
+ */
+export const replacePresent = <T>(history: EditHistory<T>, next: T): EditHistory<T> =>
+  next === history.present ? history : { ...history, present: next };
+
+/**
+ * Steps back to the previous value.
+ * @param {EditHistory<T>} history - The history.
+ * @returns {EditHistory<T>} The updated history, or the same history if there is nothing to undo.
+ */
+export const undo = <T>(history: EditHistory<T>): EditHistory<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastEditAt: 0,
+  };
+};
+
+/**
+ * Steps forward to the value that was last undone.
+ * @param {EditHistory<T>} history - The history.
+ * @returns {EditHistory<T>} The updated history, or the same history if there is nothing to redo.
+ */
+export const redo = <T>(history: EditHistory<T>): EditHistory<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastEditAt: 0,
+  };
+};
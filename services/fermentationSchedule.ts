@@ -0,0 +1,112 @@
+/**
+ * @file Estimates fermentation stage durations and builds a bake schedule that works back from a target time.
+ */
+
+import { Recipe, ScheduleStage, ScheduleStageId } from '../types';
+import { LEVAIN_INGREDIENT_NAME } from '../constants';
+import { getOverallFormula } from './recipeCalculations';
+
+/**
+ * The stages of a bake in order, with their display labels.
+ */
+export const SCHEDULE_STAGES: { id: ScheduleStageId; label: string }[] = [
+  { id: 'levainBuild', label: 'Levain Build' },
+  { id: 'autolyse', label: 'Autolyse' },
+  { id: 'mix', label: 'Mix' },
+  { id: 'bulk', label: 'Bulk Fermentation' },
+  { id: 'shape', label: 'Pre-shape & Shape' },
+  { id: 'coldRetard', label: 'Cold Retard' },
+  { id: 'proof', label: 'Final Proof' },
+  { id: 'bake', label: 'Bake' },
+];
+
+/**
+ * The dough temperature the base fermentation times are given for, in °C.
+ */
+export const REFERENCE_DOUGH_TEMPERATURE_C = 24;
+
+// Fermentation roughly halves in time for every 8°C rise in dough temperature.
+const DEGREES_PER_DOUBLING = 8;
+
+// Bulk fermentation at the reference temperature: 5 hours with 20% levain, 1.5 hours with 1% dried yeast.
+const LEVAIN_BULK_HOURS = 5;
+const LEVAIN_REFERENCE_PERCENTAGE = 20;
+const YEAST_BULK_HOURS = 1.5;
+const YEAST_REFERENCE_PERCENTAGE = 1;
+
+// Fresh yeast is roughly three times the weight of the dried yeast it replaces.
+const DRIED_YEAST_EQUIVALENCE: Record<string, number> = {
+  'Dried Yeast': 1,
+  'Fresh Yeast': 1 / 3,
+};
+
+// Leavening in a preferment, such as the yeast in a poolish, ferments the whole dough, so the overall formula is used.
+const sumPercentage = (recipe: Recipe, names: string[]): number =>
+  getOverallFormula(recipe)
+    .filter(ing => names.includes(ing.name))
+    .reduce((acc, ing) => acc + ing.percentage * (DRIED_YEAST_EQUIVALENCE[ing.name] ?? 1), 0);
+
+/**
+ * Scales a duration measured at the reference temperature to another dough temperature.
+ * @param {number} minutes - The duration at the reference temperature.
+ * @param {number} doughTemperatureC - The dough temperature in °C.
+ * @returns {number} The adjusted duration in minutes.
+ */
+export const adjustForTemperature = (minutes: number, doughTemperatureC: number): number =>
+  minutes * Math.pow(2, (REFERENCE_DOUGH_TEMPERATURE_C - doughTemperatureC) / DEGREES_PER_DOUBLING);
+
+/**
+ * Estimates how long each stage of a bake takes, based on the recipe's leavening and the dough temperature.
+ * Bulk time shortens with the square root of the levain or yeast percentage. Levain doughs default to an
+ * overnight cold retard with a short warm-up proof; yeasted doughs proof at room temperature instead.
+ * @param {Recipe} recipe - The recipe being baked.
+ * @param {number} doughTemperatureC - The target dough temperature in °C.
+ * @returns {Record<ScheduleStageId, number>} The estimated duration of each stage, in minutes.
+ */
+export const estimateStageDurations = (recipe: Recipe, doughTemperatureC: number): Record<ScheduleStageId, number> => {
+  const levainPercentage = sumPercentage(recipe, [LEVAIN_INGREDIENT_NAME]);
+  const yeastPercentage = sumPercentage(recipe, Object.keys(DRIED_YEAST_EQUIVALENCE));
+  const usesLevain = levainPercentage > 0;
+
+  let bulkMinutes = 0;
+  if (usesLevain) {
+    bulkMinutes = LEVAIN_BULK_HOURS * 60 * Math.sqrt(LEVAIN_REFERENCE_PERCENTAGE / levainPercentage);
+  } else if (yeastPercentage > 0) {
+    bulkMinutes = YEAST_BULK_HOURS * 60 * Math.sqrt(YEAST_REFERENCE_PERCENTAGE / yeastPercentage);
+  }
+  bulkMinutes = adjustForTemperature(bulkMinutes, doughTemperatureC);
+
+  const round = (minutes: number) => Math.round(minutes / 5) * 5;
+
+  return {
+    levainBuild: usesLevain ? round(adjustForTemperature(6 * 60, doughTemperatureC)) : 0,
+    autolyse: usesLevain ? 45 : 30,
+    mix: 15,
+    bulk: round(bulkMinutes),
+    shape: 30,
+    coldRetard: usesLevain ? 12 * 60 : 0,
+    proof: usesLevain ? 60 : round(bulkMinutes * 0.6),
+    bake: 45,
+  };
+};
+
+/**
+ * Lays out the stages of a bake so that the bake finishes at the target time.
+ * @param {Date} target - When the loaf should come out of the oven.
+ * @param {Record<ScheduleStageId, number>} durations - The duration of each stage, in minutes.
+ * @returns {ScheduleStage[]} The stages with a non-zero duration, in order, with their start and end times.
+ */
+export const buildSchedule = (target: Date, durations: Record<ScheduleStageId, number>): ScheduleStage[] => {
+  const stages: ScheduleStage[] = [];
+  let end = target.getTime();
+
+  for (const { id, label } of [...SCHEDULE_STAGES].reverse()) {
+    const durationMinutes = Math.max(0, durations[id]);
+    if (durationMinutes === 0) continue;
+    const start = end - durationMinutes * 60000;
+    stages.unshift({ id, label, durationMinutes, start: new Date(start), end: new Date(end) });
+    end = start;
+  }
+
+  return stages;
+};
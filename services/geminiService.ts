@@ -3,8 +3,9 @@
  */
 
 import { GoogleGenAI, Type } from '@google/genai';
-import { Recipe, NutritionInfo } from '../types';
-import { ALL_INGREDIENTS } from '../constants';
+import { Recipe, NutrientProfile } from '../types';
+import { convertToGrams } from './unitConversion';
+import { getAllIngredients } from './ingredientCatalog';
 
 const API_KEY = process.env.API_KEY;
 
@@ -28,7 +29,14 @@ const getGeminiClient = (): GoogleGenAI => {
   return ai;
 };
 
-const validIngredientNames = ALL_INGREDIENTS.map(i => i.name);
+/**
+ * Describes the grams per US cup for each ingredient, so the AI converts volume measures the same way the local parser does.
+ * @returns {string} A semicolon-separated list of conversions.
+ */
+const getGramsPerCupGuide = (): string => getAllIngredients()
+  .filter(i => i.density)
+  .map(i => `${i.name}: ${convertToGrams(1, 'cup', i.name)!.toFixed(0)}g per cup`)
+  .join('; ');
 
 /**
  * Parses a recipe from a string of text using the Gemini AI model.
@@ -38,17 +46,19 @@ const validIngredientNames = ALL_INGREDIENTS.map(i => i.name);
  */
 export const parseRecipeFromText = async (text: string): Promise<Omit<Recipe, 'id' | 'isStandard'>> => {
   const client = getGeminiClient();
+  const validIngredientNames = getAllIngredients().map(i => i.name);
+  const flourNames = getAllIngredients().filter(i => i.category === 'Flour').map(i => i.name);
 
   const prompt = `
     You are an expert baker's assistant. Your task is to analyze the provided text of a bread recipe and convert it into a structured JSON format.
 
     Follow these instructions carefully:
     1.  Identify the recipe's name and create a concise, one-sentence description.
-    2.  Identify all ingredients and their amounts in grams.
+    2.  Identify all ingredients and their amounts, converting every amount to grams. Amounts may be given in g, kg, oz, lb, cups, tbsp or tsp (1 oz = 28.35g, 1 lb = 453.6g, 1 cup = 16 tbsp = 48 tsp). Convert volume measures using these weights: ${getGramsPerCupGuide()}.
     3.  Calculate the TOTAL FLOUR WEIGHT in grams. This is the sum of all flour types (e.g., White Flour, Whole Wheat Flour, Other Flour). This value is crucial.
     4.  For EACH ingredient, calculate its baker's percentage relative to the TOTAL FLOUR WEIGHT. The formula is: (Ingredient Weight / Total Flour Weight) * 100.
-    5.  Map each identified ingredient to one of the following exact names: ${validIngredientNames.join(', ')}. If an ingredient like 'rye flour' or 'spelt flour' is found, map it to 'Other Flour'. If olive oil is found, map it to 'Butter or Oil'. If honey or malt syrup is found, map it to 'Sugar / Honey / Malt'. If walnuts or seeds are found, map them to 'Inclusion 1' or 'Inclusion 2'.
-    6.  The sum of the percentages for 'White Flour', 'Whole Wheat Flour', and 'Other Flour' must equal 100. Adjust them proportionally if your initial calculation differs slightly.
+    5.  Map each identified ingredient to one of the following exact names: ${validIngredientNames.join(', ')}. Prefer an exact or closely matching name from this list when one exists. Otherwise, if an ingredient like 'rye flour' or 'spelt flour' is found, map it to 'Other Flour'. If olive oil is found, map it to 'Butter or Oil'. If honey or malt syrup is found, map it to 'Sugar / Honey / Malt'. If walnuts or seeds are found, map them to 'Inclusion 1' or 'Inclusion 2'.
+    6.  The sum of the percentages for the flour ingredients (${flourNames.map(n => `'${n}'`).join(', ')}) must equal 100. Adjust them proportionally if your initial calculation differs slightly.
     7.  Return a single JSON object that strictly adheres to the provided schema. Do not include any ingredients with a percentage of 0.
 
     Here is the recipe text to parse:
@@ -104,38 +114,26 @@ export const parseRecipeFromText = async (text: string): Promise<Omit<Recipe, 'i
 };
 
 /**
- * Calculates nutritional information for a given recipe and serving size using the Gemini AI model.
- * @param {Recipe} recipe - The recipe object containing ingredients and weights.
- * @param {number} servingSizeGrams - The desired serving size in grams for the calculation.
- * @returns {Promise<NutritionInfo>} A promise that resolves to the structured nutritional information.
- * @throws {Error} If the AI model fails to calculate or if the API key is not configured.
+ * Estimates per-100g nutrient data for ingredients that the local nutrient table doesn't cover, using the Gemini AI model.
+ * @param {string[]} ingredientNames - The names of the ingredients to estimate.
+ * @returns {Promise<Record<string, NutrientProfile>>} A promise that resolves to nutrient data keyed by ingredient name.
+ * @throws {Error} If the AI model fails to respond or if the API key is not configured.
  */
-export const getNutritionalInformation = async (recipe: Recipe, servingSizeGrams: number): Promise<NutritionInfo> => {
+export const estimateNutrientProfiles = async (ingredientNames: string[]): Promise<Record<string, NutrientProfile>> => {
   const client = getGeminiClient();
 
-  const ingredientsInGrams = recipe.ingredients.map(ing => ({
-    name: ing.name,
-    grams: (ing.percentage / 100) * recipe.totalFlourGrams,
-  }));
-
-  const totalDoughWeight = ingredientsInGrams.reduce((acc, ing) => acc + ing.grams, 0);
-
   const prompt = `
-    You are an expert nutritionist's assistant. Your task is to calculate the nutritional information for a single serving of baked bread based on its recipe.
+    You are an expert nutritionist's assistant. Your task is to provide typical nutritional values for raw baking ingredients.
 
     Follow these critical instructions:
-    1.  The provided recipe is for the raw dough. During baking, assume a **20% reduction in water weight** due to evaporation. All other ingredient weights remain the same.
-    2.  Calculate the nutritional values (calories, protein, fat, carbohydrates, fiber) for the **entire baked loaf** first.
-    3.  Then, based on the total baked loaf weight, calculate the nutritional information for a single serving of **${servingSizeGrams}g**.
-    4.  Provide the final values for the ${servingSizeGrams}g serving.
-    5.  Return a single JSON object that strictly adheres to the provided schema. The values should be numbers.
+    1.  For EACH ingredient listed below, provide the calories, protein, fat, carbohydrates and fiber **per 100g** of the raw ingredient.
+    2.  Use the exact ingredient name as given in the list.
+    3.  Return a single JSON array that strictly adheres to the provided schema. The values should be numbers.
 
-    Here is the recipe for the raw dough:
+    Here are the ingredients:
     ---
-    ${ingredientsInGrams.map(i => `${i.name}: ${i.grams.toFixed(1)}g`).join('\n')}
+    ${ingredientNames.join('\n')}
     ---
-    Total raw dough weight: ${totalDoughWeight.toFixed(1)}g
-    Desired serving size: ${servingSizeGrams}g
   `;
 
   try {
@@ -145,36 +143,50 @@ export const getNutritionalInformation = async (recipe: Recipe, servingSizeGrams
       config: {
         responseMimeType: 'application/json',
         responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            calories: { type: Type.NUMBER, description: 'Total calories for the serving size.' },
-            proteinGrams: { type: Type.NUMBER, description: 'Grams of protein for the serving size.' },
-            fatGrams: { type: Type.NUMBER, description: 'Grams of fat for the serving size.' },
-            carbohydrateGrams: { type: Type.NUMBER, description: 'Grams of carbohydrates for the serving size.' },
-            fiberGrams: { type: Type.NUMBER, description: 'Grams of fiber for the serving size.' },
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING, description: 'The ingredient name exactly as given.' },
+              calories: { type: Type.NUMBER, description: 'Calories per 100g.' },
+              proteinGrams: { type: Type.NUMBER, description: 'Grams of protein per 100g.' },
+              fatGrams: { type: Type.NUMBER, description: 'Grams of fat per 100g.' },
+              carbohydrateGrams: { type: Type.NUMBER, description: 'Grams of carbohydrates per 100g.' },
+              fiberGrams: { type: Type.NUMBER, description: 'Grams of fiber per 100g.' },
+            },
+            required: ['name', 'calories', 'proteinGrams', 'fatGrams', 'carbohydrateGrams', 'fiberGrams'],
           },
-          required: ['calories', 'proteinGrams', 'fatGrams', 'carbohydrateGrams', 'fiberGrams'],
         },
       },
     });
 
     const jsonString = response.text;
-    const nutritionalInfo = JSON.parse(jsonString) as NutritionInfo;
-
-    if (
-        typeof nutritionalInfo.calories !== 'number' ||
-        typeof nutritionalInfo.proteinGrams !== 'number' ||
-        typeof nutritionalInfo.fatGrams !== 'number' ||
-        typeof nutritionalInfo.carbohydrateGrams !== 'number' ||
-        typeof nutritionalInfo.fiberGrams !== 'number'
-    ) {
+    const estimates = JSON.parse(jsonString) as (NutrientProfile & { name: string })[];
+
+    if (!Array.isArray(estimates)) {
         throw new Error("AI model returned nutritional data with an invalid format.");
     }
 
-    return nutritionalInfo;
+    const profiles: Record<string, NutrientProfile> = {};
+    for (const estimate of estimates) {
+      if (
+          !ingredientNames.includes(estimate.name) ||
+          typeof estimate.calories !== 'number' ||
+          typeof estimate.proteinGrams !== 'number' ||
+          typeof estimate.fatGrams !== 'number' ||
+          typeof estimate.carbohydrateGrams !== 'number' ||
+          typeof estimate.fiberGrams !== 'number'
+      ) {
+          continue;
+      }
+      const { name, ...profile } = estimate;
+      profiles[name] = profile;
+    }
+
+    return profiles;
 
   } catch (error) {
-    console.error("Error fetching nutritional information with Gemini API:", error);
-    throw new Error("Failed to calculate nutrition. The AI model could not process the recipe or an API error occurred.");
+    console.error("Error estimating nutrient data with Gemini API:", error);
+    throw new Error("Failed to estimate nutrition for some ingredients. The AI model could not process them or an API error occurred.");
   }
 };
@@ -0,0 +1,124 @@
+/**
+ * @file The anonymous library used before signing in, and merging its drafts into an account.
+ */
+
+import { Recipe, Ingredient, BakeLogEntry } from '../types';
+import { getOverallFormula } from './recipeCalculations';
+
+/**
+ * The library id used for recipes saved while signed out. Google user ids are numeric, so it can't clash.
+ */
+export const GUEST_LIBRARY_ID = 'guest';
+
+/**
+ * The outcome of merging guest drafts into an account.
+ */
+export interface GuestMergePlan {
+  /** Drafts to add to the account, with ids that don't collide with the account's recipes. */
+  toAdd: Recipe[];
+  /** Drafts skipped because the account already has the same recipe. */
+  duplicates: Recipe[];
+  /** The id each draft has in the account: its new id, or that of the recipe it duplicates. Keyed by the draft's id. */
+  recipeIds: Map<string, string>;
+}
+
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Describes a formula independently of ingredient order and of rounding in the last decimal place.
+const getFormulaKey = (ingredients: Ingredient[]): string => {
+  const totals = new Map<string, number>();
+  for (const ing of ingredients) {
+    totals.set(ing.name, (totals.get(ing.name) ?? 0) + ing.percentage);
+  }
+  return [...totals.entries()]
+    .filter(([, percentage]) => percentage > 0)
+    .map(([name, percentage]) => `${name}:${percentage.toFixed(1)}`)
+    .sort()
+    .join('|');
+};
+
+/**
+ * Determines whether two recipes are the same: the same name (ignoring case and spacing) and the same
+ * ingredients at the same baker's percentages, in any order. The batch size doesn't matter.
+ * @param {Recipe} a - One recipe.
+ * @param {Recipe} b - The other recipe.
+ * @returns {boolean} True if the recipes are duplicates.
+ */
+export const isDuplicateRecipe = (a: Recipe, b: Recipe): boolean =>
+  normalizeName(a.name) === normalizeName(b.name) && getFormulaKey(getOverallFormula(a)) === getFormulaKey(getOverallFormula(b));
+
+/**
+ * Works out which guest drafts to add to an account. Drafts the account already has are skipped,
+ * and drafts whose ids are already taken get new ones.
+ * @param {Recipe[]} guestRecipes - The recipes saved while signed out.
+ * @param {Recipe[]} accountRecipes - The account's own recipes.
+ * @param {number} [now] - The time used to build new ids.
+ * @returns {GuestMergePlan} The drafts to add and the duplicates that were skipped.
+ */
+export const planGuestMerge = (guestRecipes: Recipe[], accountRecipes: Recipe[], now: number = Date.now()): GuestMergePlan => {
+  const usedIds = new Set(accountRecipes.map(r => r.id));
+  const plan: GuestMergePlan = { toAdd: [], duplicates: [], recipeIds: new Map() };
+  let counter = 0;
+
+  for (const draft of guestRecipes) {
+    const original = accountRecipes.find(r => isDuplicateRecipe(r, draft)) ?? plan.toAdd.find(r => isDuplicateRecipe(r, draft));
+    if (original) {
+      plan.duplicates.push(draft);
+      plan.recipeIds.set(draft.id, original.id);
+      continue;
+    }
+    let id = draft.id;
+    while (usedIds.has(id)) {
+      id = `user-${now}-${counter++}`;
+    }
+    usedIds.add(id);
+    plan.recipeIds.set(draft.id, id);
+    plan.toAdd.push({ ...draft, id, updatedAt: now });
+  }
+  return plan;
+};
+
+/**
+ * Adds the guest's bake journal to the account's, pointing each entry at the recipe its draft became.
+ * Entries the account already has are skipped.
+ * @param {BakeLogEntry[]} accountEntries - The account's bake journal.
+ * @param {BakeLogEntry[]} guestEntries - The bake journal kept while signed out.
+ * @param {Map<string, string>} recipeIds - The account id of each draft, from planGuestMerge.
+ * @returns {BakeLogEntry[]} The combined bake journal.
+ */
+export const mergeGuestBakeLog = (accountEntries: BakeLogEntry[], guestEntries: BakeLogEntry[], recipeIds: Map<string, string>): BakeLogEntry[] => {
+  const entryIds = new Set(accountEntries.map(entry => entry.id));
+  return [
+    ...accountEntries,
+    // Entries for standard recipes keep their recipe id, which is the same in every library.
+    ...guestEntries
+      .filter(entry => !entryIds.has(entry.id))
+      .map(entry => ({ ...entry, recipeId: recipeIds.get(entry.recipeId) ?? entry.recipeId })),
+  ];
+};
+
+const getDeclinedMergeKey = (userId: string): string => `guestMergeDeclined-${userId}`;
+
+// Identifies the guest data on offer, so a declined offer is made again once there is something new.
+const describeGuestData = (guestRecipes: Recipe[], guestEntries: BakeLogEntry[]): string =>
+  JSON.stringify([guestRecipes.map(r => [r.id, r.updatedAt ?? null]), guestEntries.map(e => e.id)]);
+
+/**
+ * Remembers that an account declined to take the guest data as it is now.
+ * @param {string} userId - The account.
+ * @param {Recipe[]} guestRecipes - The recipes saved while signed out.
+ * @param {BakeLogEntry[]} guestEntries - The bake journal kept while signed out.
+ */
+export const declineGuestMerge = (userId: string, guestRecipes: Recipe[], guestEntries: BakeLogEntry[]): void => {
+  localStorage.setItem(getDeclinedMergeKey(userId), describeGuestData(guestRecipes, guestEntries));
+};
+
+/**
+ * Determines whether an account has already declined this guest data. Anything saved as a guest since renews the offer.
+ * @param {string} userId - The account.
+ * @param {Recipe[]} guestRecipes - The recipes saved while signed out.
+ * @param {BakeLogEntry[]} guestEntries - The bake journal kept while signed out.
+ * @returns {boolean} True if the account shouldn't be asked again.
+ */
+export const isGuestMergeDeclined = (userId: string, guestRecipes: Recipe[], guestEntries: BakeLogEntry[]): boolean =>
+  localStorage.getItem(getDeclinedMergeKey(userId)) === describeGuestData(guestRecipes, guestEntries);
@@ -0,0 +1,38 @@
+/**
+ * @file Provides ingredient lookups across the built-in ingredients and the signed-in user's custom catalog.
+ */
+
+import { IngredientInfo } from '../types';
+import { ALL_INGREDIENTS } from '../constants';
+
+let customIngredients: IngredientInfo[] = [];
+let ingredientInfoMap = new Map(ALL_INGREDIENTS.map(i => [i.name, i]));
+
+/**
+ * Replaces the custom ingredients available to lookups, e.g., after the user's catalog is loaded or edited.
+ * Custom entries can't shadow built-in ingredients; any with a built-in name are ignored.
+ * @param {IngredientInfo[]} ingredients - The user's custom ingredients.
+ */
+export const setCustomIngredients = (ingredients: IngredientInfo[]): void => {
+  customIngredients = ingredients.filter(i => !ALL_INGREDIENTS.some(std => std.name === i.name));
+  ingredientInfoMap = new Map([...ALL_INGREDIENTS, ...customIngredients].map(i => [i.name, i]));
+};
+
+/**
+ * Returns the user's custom ingredients currently available to lookups.
+ * @returns {IngredientInfo[]} The custom ingredients.
+ */
+export const getCustomIngredients = (): IngredientInfo[] => customIngredients;
+
+/**
+ * Returns every ingredient available in the app: the built-in ingredients followed by the user's custom ones.
+ * @returns {IngredientInfo[]} All ingredients.
+ */
+export const getAllIngredients = (): IngredientInfo[] => [...ALL_INGREDIENTS, ...customIngredients];
+
+/**
+ * Looks up the static information for an ingredient by its name.
+ * @param {string} name - The ingredient name.
+ * @returns {IngredientInfo | undefined} The ingredient's info, or undefined if it is not a known ingredient.
+ */
+export const getIngredientInfo = (name: string): IngredientInfo | undefined => ingredientInfoMap.get(name);
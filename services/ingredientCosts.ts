@@ -0,0 +1,149 @@
+/**
+ * @file Costs recipes from the user's ingredient prices, at today's prices or at those in effect on a past date.
+ */
+
+import { Recipe, IngredientPrice, RecipeRevision } from '../types';
+import { LEVAIN_INGREDIENT_NAME, LEVAIN_FLOUR_NAME } from '../constants';
+import { getIngredientGramsByName, getLevainHydration, scaleRecipeToDoughWeight, splitLevain } from './recipeCalculations';
+
+/**
+ * The cost of one ingredient in a batch.
+ */
+export interface IngredientCostLine {
+  name: string;
+  /** The ingredient's total weight in the batch, across the final dough and its components, in grams. */
+  grams: number;
+  /**
+   * The price per kilogram used, or null if the ingredient has no price in the currency. A levain without a price
+   * of its own is priced as the flour and water it is made of, with unpriced water free.
+   */
+  pricePerKg: number | null;
+  /** The ingredient's cost, or null if it has no price. */
+  cost: number | null;
+}
+
+/**
+ * The cost of a batch of dough and how it breaks down.
+ */
+export interface RecipeCost {
+  currency: string;
+  /** One line per ingredient, in the order the ingredients first appear. */
+  lines: IngredientCostLine[];
+  /** The cost of the priced ingredients. */
+  totalCost: number;
+  /** The batch's dough weight in grams. */
+  doughGrams: number;
+  /** The cost of 100g of dough, or null if the batch is empty. */
+  costPer100Grams: number | null;
+  /** The cost of each piece, or null if there are no pieces. */
+  costPerPiece: number | null;
+  /** The ingredients left out of the totals because they have no price. */
+  unpricedIngredients: string[];
+}
+
+/**
+ * Finds the price of an ingredient that was in effect at a given time.
+ * @param {IngredientPrice[]} prices - The user's full price history.
+ * @param {string} ingredientName - The ingredient.
+ * @param {string} currency - The currency to look for; prices in other currencies are ignored.
+ * @param {string} at - The time, as an ISO 8601 string.
+ * @returns {IngredientPrice | undefined} The latest price that took effect at or before the time, if any.
+ */
+export const getPriceAt = (prices: IngredientPrice[], ingredientName: string, currency: string, at: string): IngredientPrice | undefined =>
+  prices
+    .filter(price => price.ingredientName === ingredientName && price.currency === currency && price.effectiveFrom <= at)
+    .reduce<IngredientPrice | undefined>((latest, price) => (!latest || price.effectiveFrom >= latest.effectiveFrom ? price : latest), undefined);
+
+/**
+ * Records a new price for an ingredient. Earlier prices are kept so past bakes can still be costed with them.
+ * @param {IngredientPrice[]} prices - The user's full price history.
+ * @param {string} ingredientName - The ingredient.
+ * @param {number} pricePerKg - The new price per kilogram.
+ * @param {string} currency - The currency the price is in.
+ * @param {Date} [effectiveFrom] - When the price takes effect, e.g., the date of a receipt entered later. Defaults to now.
+ * @returns {IngredientPrice[]} The history with the new price added.
+ */
+export const addIngredientPrice = (
+  prices: IngredientPrice[],
+  ingredientName: string,
+  pricePerKg: number,
+  currency: string,
+  effectiveFrom: Date = new Date()
+): IngredientPrice[] => [
+  ...prices,
+  { ingredientName, pricePerKg: Math.max(0, pricePerKg), currency, effectiveFrom: effectiveFrom.toISOString() },
+];
+
+// The levain is made rather than bought, so its price is that of the flour and water in a kilogram of it.
+// Few bakers price tap water, so unpriced water adds nothing; only the flour needs a price.
+const getLevainPricePerKg = (recipe: Recipe, prices: IngredientPrice[], currency: string, at: string): number | null => {
+  const flourPrice = getPriceAt(prices, LEVAIN_FLOUR_NAME, currency, at);
+  if (flourPrice === undefined) return null;
+  const waterPricePerKg = getPriceAt(prices, 'Water', currency, at)?.pricePerKg ?? 0;
+  const { flourGrams, waterGrams } = splitLevain(1000, getLevainHydration(recipe));
+  return (flourGrams * flourPrice.pricePerKg + waterGrams * waterPricePerKg) / 1000;
+};
+
+/**
+ * Costs a batch of a recipe at its current scaling, using the prices in effect at a given time.
+ * Every ingredient of the final dough and its components is included, summed by name.
+ * @param {Recipe} recipe - The recipe, scaled to the batch.
+ * @param {IngredientPrice[]} prices - The user's full price history.
+ * @param {string} currency - The currency to cost in.
+ * @param {string} at - The time whose prices apply, as an ISO 8601 string.
+ * @param {number} pieceCount - The number of pieces the batch is divided into.
+ * @returns {RecipeCost} The batch's cost and its breakdown.
+ */
+export const calculateRecipeCost = (recipe: Recipe, prices: IngredientPrice[], currency: string, at: string, pieceCount: number): RecipeCost => {
+  const lines: IngredientCostLine[] = [...getIngredientGramsByName(recipe)].map(([name, grams]) => {
+    const pricePerKg = getPriceAt(prices, name, currency, at)?.pricePerKg
+      ?? (name === LEVAIN_INGREDIENT_NAME ? getLevainPricePerKg(recipe, prices, currency, at) : null);
+    return { name, grams, pricePerKg, cost: pricePerKg === null ? null : (grams / 1000) * pricePerKg };
+  });
+  const totalCost = lines.reduce((acc, line) => acc + (line.cost ?? 0), 0);
+  const doughGrams = lines.reduce((acc, line) => acc + line.grams, 0);
+
+  return {
+    currency,
+    lines,
+    totalCost,
+    doughGrams,
+    costPer100Grams: doughGrams > 0 ? (totalCost / doughGrams) * 100 : null,
+    costPerPiece: pieceCount > 0 ? totalCost / pieceCount : null,
+    unpricedIngredients: lines.filter(line => line.cost === null && line.grams > 0).map(line => line.name),
+  };
+};
+
+/**
+ * Re-costs a past bake at the prices in effect when it was made. The formula used is the recipe's revision that was
+ * current at the time, falling back to the recipe as it is now if it has no earlier revision.
+ * @param {Recipe} recipe - The recipe as it is now.
+ * @param {RecipeRevision[]} revisions - The recipe's revisions, oldest first.
+ * @param {string} bakedAt - When the bake was made, as an ISO 8601 string.
+ * @param {number} doughWeightGrams - The dough weight that was mixed, in grams.
+ * @param {IngredientPrice[]} prices - The user's full price history.
+ * @param {string} currency - The currency to cost in.
+ * @returns {RecipeCost} The bake's cost, with the whole bake counted as one piece.
+ */
+export const calculateBakeCost = (
+  recipe: Recipe,
+  revisions: RecipeRevision[],
+  bakedAt: string,
+  doughWeightGrams: number,
+  prices: IngredientPrice[],
+  currency: string
+): RecipeCost => {
+  const bakedAtMs = new Date(bakedAt).getTime();
+  const revision = [...revisions].reverse().find(r => r.savedAt <= bakedAtMs);
+  const formula: Recipe = revision ? { ...recipe, components: undefined, ...revision.snapshot } : recipe;
+  return calculateRecipeCost(scaleRecipeToDoughWeight(formula, doughWeightGrams), prices, currency, bakedAt, 1);
+};
+
+/**
+ * Formats an amount of money for display.
+ * @param {number} amount - The amount.
+ * @param {string} currency - The ISO 4217 currency code.
+ * @returns {string} The formatted amount (e.g., '€1.25').
+ */
+export const formatMoney = (amount: number, currency: string): string =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
@@ -0,0 +1,228 @@
+/**
+ * @file A deterministic, rule-based recipe parser that works offline for simple ingredient lists.
+ */
+
+import { Recipe, Ingredient } from '../types';
+import { calculateDoughComposition } from './recipeCalculations';
+import { getIngredientInfo, getCustomIngredients } from './ingredientCatalog';
+import { QUANTITY_PATTERN, UNIT_ALIAS_PATTERN, WEIGHT_UNITS, parseQuantity, parseUnit, convertToGrams } from './unitConversion';
+
+/**
+ * The result of parsing recipe text locally.
+ */
+export interface LocalParseResult {
+  /** The parsed recipe, or null if no flour could be identified. */
+  recipe: Omit<Recipe, 'id' | 'isStandard'> | null;
+  /** Lines that looked like content but could not be understood by the rule-based parser. */
+  unparsedLines: string[];
+}
+
+/**
+ * The flour weight assumed when a recipe is given entirely in baker's percentages.
+ */
+const DEFAULT_PERCENTAGE_FLOUR_GRAMS = 1000;
+
+/**
+ * Synonym patterns mapped to ingredient names from ALL_INGREDIENTS.
+ * Order matters: more specific patterns (e.g., 'buttermilk', 'olive oil') must come before more general ones.
+ */
+const INGREDIENT_SYNONYMS: { pattern: RegExp; name: string }[] = [
+  { pattern: /\b(levain|leaven|starter|sourdough|mother dough)\b/, name: 'Sourdough Levain' },
+  { pattern: /\b(whole ?wheat|wholemeal|whole ?grain|graham)\b/, name: 'Whole Wheat Flour' },
+  { pattern: /\bother flour\b|\b(rye|spelt|einkorn|emmer|kamut|khorasan|durum|semolina)\b|\b(buckwheat|barley|oat|corn|rice|chickpea)\b.*\bflour\b/, name: 'Other Flour' },
+  { pattern: /\b(flour|tipo ?0?0)\b/, name: 'White Flour' },
+  { pattern: /\bbuttermilk\b/, name: 'Buttermilk' },
+  { pattern: /\bmilk\b/, name: 'Milk' },
+  { pattern: /\bwater\b/, name: 'Water' },
+  { pattern: /\b(fresh|cake|compressed) yeast\b/, name: 'Fresh Yeast' },
+  { pattern: /\byeast\b/, name: 'Dried Yeast' },
+  { pattern: /\bdiastatic\b/, name: 'Diastatic Malt Powder' },
+  { pattern: /\bsalt\b/, name: 'Salt' },
+  { pattern: /\b(butter|oil|lard|ghee|shortening)\b/, name: 'Butter or Oil' },
+  { pattern: /\b(sugar|honey|malt|molasses|syrup|treacle)\b/, name: 'Sugar / Honey / Malt' },
+  { pattern: /\b(seeds?|nuts?|walnuts?|pecans?|almonds?|hazelnuts?|raisins?|currants?|cranberr(y|ies)|olives?|cheese|chocolate|herbs?|sesame|flax|linseed|sunflower|pumpkin|poppy|fruit|inclusion)\b/, name: 'Inclusion' },
+];
+
+const AMOUNT_PATTERN = new RegExp(`(${QUANTITY_PATTERN})\\s*(${UNIT_ALIAS_PATTERN}|%)(?![a-z])`, 'gi');
+
+interface ParsedLine {
+  name: string;
+  rawName: string;
+  value: number;
+  unit: 'g' | '%';
+}
+
+/**
+ * Maps a free-text ingredient name onto the name of a custom ingredient or an ingredient from ALL_INGREDIENTS.
+ * Inclusions are returned as the generic 'Inclusion' and numbered later.
+ * @param {string} rawName - The ingredient name as written in the recipe.
+ * @returns {string | null} The matched ingredient name, or null if there is no match.
+ */
+export const matchIngredientName = (rawName: string): string | null => {
+  const normalized = rawName.toLowerCase();
+
+  // The user's own ingredients are matched by name first, preferring the longest (most specific) name.
+  const customMatch = getCustomIngredients()
+    .filter(i => normalized.includes(i.name.toLowerCase()))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  if (customMatch) return customMatch.name;
+
+  const match = INGREDIENT_SYNONYMS.find(s => s.pattern.test(normalized));
+  return match ? match.name : null;
+};
+
+const cleanLine = (line: string): string =>
+  line.replace(/^\s*(?:[-*•·]|\d+[.)])\s+/, '').trim();
+
+const PARENTHETICAL_PATTERN = /\([^)]*\)/g;
+
+const isWeightAmount = (amount: RegExpMatchArray): boolean => {
+  const unit = parseUnit(amount[2]);
+  return unit !== undefined && (WEIGHT_UNITS as string[]).includes(unit);
+};
+
+// The first amount in some text, together with any weights that directly follow a weight, e.g. '1 lb 2 oz'.
+const getLeadingAmounts = (text: string, amounts: RegExpMatchArray[]): RegExpMatchArray[] => {
+  if (amounts.length === 0) return [];
+  const run = [amounts[0]];
+  for (const amount of amounts.slice(1)) {
+    const previous = run[run.length - 1];
+    const gap = text.slice((previous.index ?? 0) + previous[0].length, amount.index);
+    if (gap.trim() !== '' || !isWeightAmount(previous) || !isWeightAmount(amount)) break;
+    run.push(amount);
+  }
+  return run;
+};
+
+const parseIngredientLine = (line: string): ParsedLine | null => {
+  // Parenthetical notes such as '(100% hydration)' describe the ingredient, and amounts such as the '(500g)' in
+  // '4 cups (500g) flour' are alternatives to the one before them. Amounts are read from the rest of the line,
+  // but a weight in a note is preferred to a volume, and a note is used when the line has no other amount.
+  const mainText = line.replace(PARENTHETICAL_PATTERN, ' ');
+  const notes = (line.match(PARENTHETICAL_PATTERN) ?? []).join(' ');
+  const mainAmounts = [...mainText.matchAll(AMOUNT_PATTERN)];
+  const noteAmounts = getLeadingAmounts(notes, [...notes.matchAll(AMOUNT_PATTERN)].filter(amount => amount[2] !== '%'));
+
+  const rawName = mainAmounts
+    .reduce((rest, amount) => rest.replace(amount[0], ' '), mainText)
+    .replace(/[:,\-–]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const name = matchIngredientName(rawName);
+  if (!name) return null;
+
+  const [first] = mainAmounts;
+  if (first?.[2] === '%') {
+    return { name, rawName: rawName.toLowerCase(), value: parseQuantity(first[1]), unit: '%' };
+  }
+
+  const amounts = first && (isWeightAmount(first) || !noteAmounts.some(isWeightAmount))
+    ? getLeadingAmounts(mainText, mainAmounts)
+    : noteAmounts;
+  if (amounts.length === 0) return null;
+
+  // Generic inclusions share a density, so either numbered inclusion can be used for the conversion.
+  let grams = 0;
+  for (const amount of amounts) {
+    const unit = parseUnit(amount[2]);
+    const amountGrams = unit ? convertToGrams(parseQuantity(amount[1]), unit, name === 'Inclusion' ? 'Inclusion 1' : name) : null;
+    if (amountGrams === null) return null;
+    grams += amountGrams;
+  }
+
+  return { name, rawName: rawName.toLowerCase(), value: grams, unit: 'g' };
+};
+
+/**
+ * Numbers generic inclusions as 'Inclusion 1' and 'Inclusion 2', in order of first appearance.
+ * Any further distinct inclusions are combined into 'Inclusion 2'.
+ */
+const assignInclusionNames = (lines: ParsedLine[]): void => {
+  const inclusionNames = new Map<string, string>();
+  for (const line of lines) {
+    if (line.name !== 'Inclusion') continue;
+    if (!inclusionNames.has(line.rawName)) {
+      inclusionNames.set(line.rawName, inclusionNames.size === 0 ? 'Inclusion 1' : 'Inclusion 2');
+    }
+    line.name = inclusionNames.get(line.rawName)!;
+  }
+};
+
+const isFlour = (name: string): boolean => getIngredientInfo(name)?.category === 'Flour';
+
+const roundPercentage = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Parses recipe text into a structured recipe without calling the AI.
+ * Understands ingredient lines with weights (e.g., '900g bread flour', 'Salt: 22 g', '2 lb flour'), US volume
+ * measures (e.g., '1 1/2 cups water'), which are converted to grams using ingredient densities, and lines that
+ * already use baker's percentages (e.g., 'Water 75%'). A first line without an amount is used as the name.
+ * @param {string} text - The recipe text to parse.
+ * @returns {LocalParseResult} The parsed recipe and any lines that could not be parsed.
+ */
+export const parseRecipeLocally = (text: string): LocalParseResult => {
+  const unparsedLines: string[] = [];
+  const parsedLines: { line: string; parsed: ParsedLine }[] = [];
+  let name: string | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = cleanLine(rawLine);
+    if (!line) continue;
+
+    const parsed = parseIngredientLine(line);
+    if (parsed) {
+      parsedLines.push({ line, parsed });
+    } else if (!/\d/.test(line) && line.endsWith(':')) {
+      // Section headers such as 'Ingredients:' carry no data.
+      continue;
+    } else if (!/\d/.test(line) && name === null && parsedLines.length === 0) {
+      name = line;
+    } else {
+      unparsedLines.push(line);
+    }
+  }
+
+  const lines = parsedLines.map(p => p.parsed);
+  assignInclusionNames(lines);
+
+  const flourGrams = lines
+    .filter(l => l.unit === 'g' && isFlour(l.name))
+    .reduce((acc, l) => acc + l.value, 0);
+  const hasPercentages = lines.some(l => l.unit === '%');
+  const totalFlourGrams = flourGrams > 0 ? flourGrams : hasPercentages ? DEFAULT_PERCENTAGE_FLOUR_GRAMS : 0;
+
+  const percentages = new Map<string, number>();
+  parsedLines.forEach(({ line, parsed }) => {
+    let percentage: number;
+    if (parsed.unit === '%') {
+      percentage = parsed.value;
+    } else if (flourGrams > 0) {
+      percentage = (parsed.value / flourGrams) * 100;
+    } else {
+      // Gram amounts can't be converted when the flour is only given as a percentage.
+      unparsedLines.push(line);
+      return;
+    }
+    percentages.set(parsed.name, (percentages.get(parsed.name) ?? 0) + percentage);
+  });
+
+  const ingredients: Ingredient[] = [...percentages.entries()]
+    .filter(([, percentage]) => percentage > 0)
+    .map(([ingredientName, percentage]) => ({ name: ingredientName, percentage: roundPercentage(percentage) }));
+
+  if (!ingredients.some(ing => isFlour(ing.name))) {
+    return { recipe: null, unparsedLines };
+  }
+
+  const recipe: Omit<Recipe, 'id' | 'isStandard'> = {
+    name: name ?? 'Imported Recipe',
+    description: '',
+    totalFlourGrams,
+    ingredients,
+  };
+  const { hydration } = calculateDoughComposition({ ...recipe, id: '' });
+  const flourNames = ingredients.filter(ing => isFlour(ing.name)).map(ing => ing.name.toLowerCase());
+  recipe.description = `A ${hydration.toFixed(0)}% hydration dough made with ${flourNames.join(' and ')}.`;
+
+  return { recipe, unparsedLines };
+};
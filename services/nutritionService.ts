@@ -0,0 +1,108 @@
+/**
+ * @file Calculates nutritional information for recipes from the local nutrient table, with an optional AI fallback.
+ */
+
+import { Recipe, NutrientProfile, NutritionInfo, NutritionReport } from '../types';
+import { BAKING_WATER_LOSS, DEFAULT_SERVING_SIZE_GRAMS, LEVAIN_INGREDIENT_NAME } from '../constants';
+import { ingredientNutrients } from '../data/ingredientNutrients';
+import { calculateDoughComposition, getCombinedIngredients, getIngredientGrams, getLevainHydration, splitLevain } from './recipeCalculations';
+import { estimateNutrientProfiles } from './geminiService';
+
+const emptyNutrition = (): NutritionInfo => ({
+  calories: 0,
+  proteinGrams: 0,
+  fatGrams: 0,
+  carbohydrateGrams: 0,
+  fiberGrams: 0,
+});
+
+/**
+ * Calculates the nutritional information for a serving of the baked bread, using only local nutrient data.
+ * The baked loaf weight is estimated by removing a fixed fraction of the dough's true water content.
+ * Ingredients without nutrient data are left out of the totals and listed in the report.
+ * @param {Recipe} recipe - The recipe to analyze.
+ * @param {number} [servingSizeGrams] - The serving size in grams.
+ * @param {Record<string, NutrientProfile>} [extraProfiles] - Additional per-100g nutrient data for ingredients missing from the table.
+ * @returns {NutritionReport} The nutritional information and details of how it was calculated.
+ */
+export const calculateNutrition = (
+  recipe: Recipe,
+  servingSizeGrams: number = DEFAULT_SERVING_SIZE_GRAMS,
+  extraProfiles: Record<string, NutrientProfile> = {}
+): NutritionReport => {
+  const totals = emptyNutrition();
+  const uncoveredIngredients: string[] = [];
+  const aiEstimatedIngredients: string[] = [];
+  let rawWeightGrams = 0;
+
+  for (const ing of getCombinedIngredients(recipe)) {
+    const grams = getIngredientGrams(ing, recipe.totalFlourGrams);
+    rawWeightGrams += grams;
+
+    const profile = ingredientNutrients[ing.name] ?? extraProfiles[ing.name];
+    if (!profile) {
+      if (!uncoveredIngredients.includes(ing.name)) uncoveredIngredients.push(ing.name);
+      continue;
+    }
+    if (!ingredientNutrients[ing.name] && !aiEstimatedIngredients.includes(ing.name)) {
+      aiEstimatedIngredients.push(ing.name);
+    }
+
+    // The levain's nutrient data describes its flour; its water carries no nutrients.
+    const nutrientGrams = ing.name === LEVAIN_INGREDIENT_NAME
+      ? splitLevain(grams, getLevainHydration(recipe)).flourGrams
+      : grams;
+    const factor = nutrientGrams / 100;
+    totals.calories += profile.calories * factor;
+    totals.proteinGrams += profile.proteinGrams * factor;
+    totals.fatGrams += profile.fatGrams * factor;
+    totals.carbohydrateGrams += profile.carbohydrateGrams * factor;
+    totals.fiberGrams += profile.fiberGrams * factor;
+  }
+
+  const { totalWaterGrams } = calculateDoughComposition(recipe);
+  const bakedWeightGrams = rawWeightGrams - totalWaterGrams * BAKING_WATER_LOSS;
+  const servingFactor = bakedWeightGrams > 0 ? servingSizeGrams / bakedWeightGrams : 0;
+
+  return {
+    nutrition: {
+      calories: totals.calories * servingFactor,
+      proteinGrams: totals.proteinGrams * servingFactor,
+      fatGrams: totals.fatGrams * servingFactor,
+      carbohydrateGrams: totals.carbohydrateGrams * servingFactor,
+      fiberGrams: totals.fiberGrams * servingFactor,
+    },
+    servingSizeGrams,
+    bakedWeightGrams,
+    uncoveredIngredients,
+    aiEstimatedIngredients,
+  };
+};
+
+/**
+ * Calculates the nutritional information for a recipe serving, optionally asking the Gemini AI model
+ * to estimate nutrient data for any ingredients the local table doesn't cover.
+ * If the AI fallback fails, the local result is returned with those ingredients listed as uncovered.
+ * @param {Recipe} recipe - The recipe to analyze.
+ * @param {number} servingSizeGrams - The serving size in grams.
+ * @param {boolean} useAiFallback - Whether to call the AI model for uncovered ingredients.
+ * @returns {Promise<NutritionReport>} A promise that resolves to the nutrition report.
+ */
+export const getRecipeNutrition = async (
+  recipe: Recipe,
+  servingSizeGrams: number,
+  useAiFallback: boolean
+): Promise<NutritionReport> => {
+  const localReport = calculateNutrition(recipe, servingSizeGrams);
+  if (!useAiFallback || localReport.uncoveredIngredients.length === 0) {
+    return localReport;
+  }
+
+  try {
+    const extraProfiles = await estimateNutrientProfiles(localReport.uncoveredIngredients);
+    return calculateNutrition(recipe, servingSizeGrams, extraProfiles);
+  } catch (error) {
+    console.error("AI nutrition fallback failed, using local data only:", error);
+    return localReport;
+  }
+};
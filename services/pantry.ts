@@ -0,0 +1,147 @@
+/**
+ * @file Checks planned bakes against the pantry, deducts what a bake uses and builds shopping lists.
+ */
+
+import { Recipe, PantryItem, PlannedBake } from '../types';
+import { UNSTOCKED_INGREDIENTS, LEVAIN_INGREDIENT_NAME, LEVAIN_FLOUR_NAME } from '../constants';
+import { getIngredientGramsByName, getLevainHydration, scaleRecipeToDoughWeight, splitLevain } from './recipeCalculations';
+
+/**
+ * How one ingredient's stock compares with what a bake needs.
+ */
+export interface StockLine {
+  name: string;
+  requiredGrams: number;
+  /** The amount in the pantry, or 0 if the ingredient isn't stocked there. */
+  onHandGrams: number;
+  /** How much more is needed, or 0 if there is enough. */
+  shortfallGrams: number;
+}
+
+/**
+ * Why an ingredient is on the shopping list.
+ */
+export type ShoppingReason = 'shortfall' | 'low-stock';
+
+/**
+ * An ingredient to buy.
+ */
+export interface ShoppingListItem {
+  name: string;
+  /** What the planned bakes need altogether, in grams. */
+  requiredGrams: number;
+  onHandGrams: number;
+  /** The amount to buy, in grams: enough for the bakes and to bring the stock back up to its low-stock threshold. */
+  toBuyGrams: number;
+  /** 'shortfall' if the bakes can't be made without it; 'low-stock' if only the threshold calls for it. */
+  reason: ShoppingReason;
+}
+
+const isStocked = (name: string): boolean => !UNSTOCKED_INGREDIENTS.includes(name);
+
+// The grams of each stocked ingredient a scaled recipe uses. The levain isn't stocked, but feeding it uses
+// LEVAIN_FLOUR_NAME, so its flour is added to that.
+const getStockedGrams = (recipe: Recipe): Map<string, number> => {
+  const gramsByName = getIngredientGramsByName(recipe);
+  const levainGrams = gramsByName.get(LEVAIN_INGREDIENT_NAME) ?? 0;
+  if (levainGrams > 0) {
+    const { flourGrams } = splitLevain(levainGrams, getLevainHydration(recipe));
+    gramsByName.set(LEVAIN_FLOUR_NAME, (gramsByName.get(LEVAIN_FLOUR_NAME) ?? 0) + flourGrams);
+  }
+  return new Map([...gramsByName].filter(([name, grams]) => isStocked(name) && grams > 0));
+};
+
+const getOnHandGrams = (pantry: PantryItem[], name: string): number =>
+  pantry.find(item => item.ingredientName === name)?.onHandGrams ?? 0;
+
+/**
+ * Compares what a batch of a recipe needs with what is in the pantry. Water and the levain aren't stocked,
+ * so they are left out, though the levain's flour counts towards LEVAIN_FLOUR_NAME; any other ingredient missing
+ * from the pantry counts as none on hand.
+ * @param {Recipe} recipe - The recipe, scaled to the batch.
+ * @param {PantryItem[]} pantry - The pantry.
+ * @returns {StockLine[]} One line per stocked ingredient, in the order the ingredients first appear.
+ */
+export const checkStock = (recipe: Recipe, pantry: PantryItem[]): StockLine[] =>
+  [...getStockedGrams(recipe)].map(([name, requiredGrams]) => {
+    const onHandGrams = getOnHandGrams(pantry, name);
+    return { name, requiredGrams, onHandGrams, shortfallGrams: Math.max(0, requiredGrams - onHandGrams) };
+  });
+
+/**
+ * Takes what a batch of a recipe uses out of the pantry, including the flour that fed its levain. Stock never goes
+ * below zero.
+ * @param {PantryItem[]} pantry - The pantry.
+ * @param {Recipe} recipe - The recipe, scaled to the batch that was made.
+ * @returns {PantryItem[]} The pantry after the bake.
+ */
+export const deductFromPantry = (pantry: PantryItem[], recipe: Recipe): PantryItem[] => {
+  const used = getStockedGrams(recipe);
+  return pantry.map(item => {
+    const grams = used.get(item.ingredientName);
+    return grams ? { ...item, onHandGrams: Math.max(0, item.onHandGrams - grams) } : item;
+  });
+};
+
+/**
+ * Scales the recipe of a planned bake to the planned dough weight.
+ * @param {PlannedBake} plan - The planned bake.
+ * @param {Recipe[]} recipes - The library.
+ * @returns {Recipe | undefined} The scaled recipe, or undefined if it is no longer in the library.
+ */
+export const getPlannedRecipe = (plan: PlannedBake, recipes: Recipe[]): Recipe | undefined => {
+  const recipe = recipes.find(r => r.id === plan.recipeId);
+  return recipe && scaleRecipeToDoughWeight(recipe, plan.doughWeightGrams);
+};
+
+/**
+ * Builds one shopping list for several planned bakes across recipes. Each ingredient appears once, with enough to
+ * buy for all the bakes and to leave its low-stock threshold in the pantry afterwards. Pantry items already below
+ * their threshold are included even if no bake needs them.
+ * @param {PlannedBake[]} plans - The planned bakes.
+ * @param {Recipe[]} recipes - The library; plans whose recipe has been deleted are skipped.
+ * @param {PantryItem[]} pantry - The pantry.
+ * @returns {ShoppingListItem[]} The ingredients to buy, those the bakes can't be made without first.
+ */
+export const buildShoppingList = (plans: PlannedBake[], recipes: Recipe[], pantry: PantryItem[]): ShoppingListItem[] => {
+  const requiredByName = new Map<string, number>();
+  for (const plan of plans) {
+    const recipe = getPlannedRecipe(plan, recipes);
+    if (!recipe) continue;
+    for (const [name, grams] of getStockedGrams(recipe)) {
+      requiredByName.set(name, (requiredByName.get(name) ?? 0) + grams);
+    }
+  }
+  for (const item of pantry) {
+    if (item.lowStockGrams !== undefined && !requiredByName.has(item.ingredientName)) {
+      requiredByName.set(item.ingredientName, 0);
+    }
+  }
+
+  const items: ShoppingListItem[] = [];
+  for (const [name, requiredGrams] of requiredByName) {
+    const onHandGrams = getOnHandGrams(pantry, name);
+    const lowStockGrams = pantry.find(item => item.ingredientName === name)?.lowStockGrams ?? 0;
+    const toBuyGrams = Math.max(0, requiredGrams + lowStockGrams - onHandGrams);
+    if (toBuyGrams > 0) {
+      items.push({ name, requiredGrams, onHandGrams, toBuyGrams, reason: requiredGrams > onHandGrams ? 'shortfall' : 'low-stock' });
+    }
+  }
+  return items.sort((a, b) => (a.reason === b.reason ? 0 : a.reason === 'shortfall' ? -1 : 1));
+};
+
+/**
+ * Sets the amount of an ingredient on hand, adding it to the pantry if it isn't there yet.
+ * @param {PantryItem[]} pantry - The pantry.
+ * @param {string} ingredientName - The ingredient.
+ * @param {Partial<Omit<PantryItem, 'ingredientName'>>} changes - The new amount on hand and/or low-stock threshold.
+ * @returns {PantryItem[]} The updated pantry.
+ */
+export const updatePantryItem = (
+  pantry: PantryItem[],
+  ingredientName: string,
+  changes: Partial<Omit<PantryItem, 'ingredientName'>>
+): PantryItem[] =>
+  pantry.some(item => item.ingredientName === ingredientName)
+    ? pantry.map(item => (item.ingredientName === ingredientName ? { ...item, ...changes } : item))
+    : [...pantry, { ingredientName, onHandGrams: 0, ...changes }];
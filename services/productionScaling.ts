@@ -0,0 +1,53 @@
+/**
+ * @file Calculations for production mode, where a recipe is scaled to a number of divided pieces.
+ */
+
+import { getIngredientInfo } from './ingredientCatalog';
+
+// Weights are rounded to whole grams unless the ingredient asks for finer precision.
+const DEFAULT_SCALING_PRECISION_GRAMS = 1;
+
+/**
+ * Calculates how much dough to mix so that, after mixing and scaling losses, it divides into the requested pieces.
+ * The loss is a percentage of the mixed dough, so the mix is the yield divided by the fraction that survives.
+ * @param {number} pieceCount - The number of pieces to divide.
+ * @param {number} pieceWeightGrams - The weight of each piece in grams.
+ * @param {number} lossPercentage - The percentage of the mixed dough lost to the bowl, bench and scaling.
+ * @returns {number} The total dough weight to mix, in grams.
+ */
+export const calculateProductionDoughWeight = (pieceCount: number, pieceWeightGrams: number, lossPercentage: number): number => {
+  const yieldGrams = Math.max(0, pieceCount) * Math.max(0, pieceWeightGrams);
+  const retainedFraction = 1 - Math.min(Math.max(0, lossPercentage), 99) / 100;
+  return yieldGrams / retainedFraction;
+};
+
+/**
+ * Returns the precision a scaled ingredient weight should be rounded to.
+ * @param {string} ingredientName - The ingredient.
+ * @returns {number} The rounding increment in grams (e.g., 0.1 for salt and yeast, 1 for flour).
+ */
+export const getScalingPrecision = (ingredientName: string): number =>
+  getIngredientInfo(ingredientName)?.scalingPrecisionGrams ?? DEFAULT_SCALING_PRECISION_GRAMS;
+
+/**
+ * Rounds a scaled ingredient weight to the precision that suits the ingredient, for weighing on a bakery scale.
+ * @param {number} grams - The exact weight in grams.
+ * @param {string} ingredientName - The ingredient.
+ * @returns {number} The rounded weight in grams.
+ */
+export const roundForScaling = (grams: number, ingredientName: string): number => {
+  const precision = getScalingPrecision(ingredientName);
+  return Math.round(grams / precision) * precision;
+};
+
+/**
+ * Formats a scaled ingredient weight in grams, showing only the decimals its precision calls for.
+ * @param {number} grams - The exact weight in grams.
+ * @param {string} ingredientName - The ingredient.
+ * @returns {string} The rounded, formatted weight without a unit label.
+ */
+export const formatScaledGrams = (grams: number, ingredientName: string): string => {
+  const precision = getScalingPrecision(ingredientName);
+  const decimals = precision >= 1 ? 0 : Math.ceil(-Math.log10(precision));
+  return roundForScaling(grams, ingredientName).toFixed(decimals);
+};
@@ -0,0 +1,269 @@
+/**
+ * @file Pure calculations on recipes, such as ingredient weights and true hydration.
+ */
+
+import { Recipe, RecipeComponent, Ingredient, IngredientCategory, DoughComposition, LeaveningType } from '../types';
+import {
+  LEVAIN_INGREDIENT_NAME,
+  DEFAULT_LEVAIN_HYDRATION,
+  SWEETENER_INGREDIENT_NAME,
+  ENRICHED_THRESHOLD_PERCENTAGE,
+  SALT_INGREDIENT_NAME,
+} from '../constants';
+import { getIngredientInfo } from './ingredientCatalog';
+
+/**
+ * Calculates the weight of a single ingredient in grams from its baker's percentage.
+ * @param {Ingredient} ingredient - The ingredient.
+ * @param {number} totalFlourGrams - The flour weight the percentages are relative to.
+ * @returns {number} The ingredient weight in grams.
+ */
+export const getIngredientGrams = (ingredient: Ingredient, totalFlourGrams: number): number =>
+  (ingredient.percentage / 100) * totalFlourGrams;
+
+/**
+ * Sums the baker's percentages of all ingredients in a recipe.
+ * @param {Ingredient[]} ingredients - The recipe's ingredients.
+ * @returns {number} The total percentage.
+ */
+export const getTotalPercentage = (ingredients: Ingredient[]): number =>
+  ingredients.reduce((acc, ing) => acc + ing.percentage, 0);
+
+// How many times larger the recipe's overall flour is than the flour added in its final dough.
+const getOverallFlourFactor = (recipe: Pick<Recipe, 'components'>): number => {
+  const prefermented = (recipe.components ?? [])
+    .filter(component => component.kind === 'preferment')
+    .reduce((acc, component) => acc + component.prefermentedFlourPercentage, 0);
+  return prefermented < 100 ? 100 / (100 - prefermented) : 1;
+};
+
+/**
+ * Calculates what a component's percentages are relative to, as a percentage of the recipe's totalFlourGrams:
+ * the preferment's own flour, or for a soaker the recipe's overall flour.
+ * @param {Pick<Recipe, 'components'>} recipe - The recipe the component belongs to.
+ * @param {RecipeComponent} component - The component.
+ * @returns {number} The component's basis as a baker's percentage of the final dough's flour.
+ */
+export const getComponentBasisPercentage = (recipe: Pick<Recipe, 'components'>, component: RecipeComponent): number => {
+  const overallFlourPercentage = 100 * getOverallFlourFactor(recipe);
+  return component.kind === 'preferment'
+    ? overallFlourPercentage * component.prefermentedFlourPercentage / 100
+    : overallFlourPercentage;
+};
+
+/**
+ * Re-expresses a component's ingredients as baker's percentages of the recipe's totalFlourGrams,
+ * so their weights can be calculated alongside the final dough's.
+ * @param {Pick<Recipe, 'components'>} recipe - The recipe the component belongs to.
+ * @param {RecipeComponent} component - The component.
+ * @returns {Ingredient[]} The component's ingredients on the recipe's basis.
+ */
+export const getComponentIngredientsInRecipe = (recipe: Pick<Recipe, 'components'>, component: RecipeComponent): Ingredient[] => {
+  const basis = getComponentBasisPercentage(recipe, component);
+  return component.ingredients.map(ing => ({ name: ing.name, percentage: ing.percentage * basis / 100 }));
+};
+
+/**
+ * Lists every ingredient in a recipe: the final dough's followed by each component's, all as baker's
+ * percentages of the recipe's totalFlourGrams. For recipes without components this is just the ingredients.
+ * @param {Pick<Recipe, 'ingredients' | 'components'>} recipe - The recipe.
+ * @returns {Ingredient[]} The combined ingredients, which may list the same ingredient more than once.
+ */
+export const getCombinedIngredients = (recipe: Pick<Recipe, 'ingredients' | 'components'>): Ingredient[] => [
+  ...recipe.ingredients,
+  ...(recipe.components ?? []).flatMap(component => getComponentIngredientsInRecipe(recipe, component)),
+];
+
+/**
+ * Calculates the whole dough's weight, components included, as a percentage of the recipe's totalFlourGrams.
+ * @param {Pick<Recipe, 'ingredients' | 'components'>} recipe - The recipe.
+ * @returns {number} The total percentage, from which the dough weight is (percentage / 100) * totalFlourGrams.
+ */
+export const getTotalDoughPercentage = (recipe: Pick<Recipe, 'ingredients' | 'components'>): number =>
+  getTotalPercentage(getCombinedIngredients(recipe));
+
+/**
+ * Builds the overall formula: every ingredient from the final dough and its components, summed by name,
+ * as baker's percentages of the overall flour. For recipes without components this is the ingredients themselves.
+ * @param {Pick<Recipe, 'ingredients' | 'components'>} recipe - The recipe.
+ * @returns {Ingredient[]} The overall formula, in the order the ingredients first appear.
+ */
+export const getOverallFormula = (recipe: Pick<Recipe, 'ingredients' | 'components'>): Ingredient[] => {
+  const factor = getOverallFlourFactor(recipe);
+  const totals = new Map<string, number>();
+  for (const ing of getCombinedIngredients(recipe)) {
+    totals.set(ing.name, (totals.get(ing.name) ?? 0) + ing.percentage / factor);
+  }
+  return [...totals.entries()].map(([name, percentage]) => ({ name, percentage }));
+};
+
+/**
+ * Totals the weight of each ingredient across the final dough and its components, at the recipe's current scaling.
+ * @param {Pick<Recipe, 'ingredients' | 'components' | 'totalFlourGrams'>} recipe - The recipe.
+ * @returns {Map<string, number>} The grams of each ingredient by name, in the order the ingredients first appear.
+ */
+export const getIngredientGramsByName = (recipe: Pick<Recipe, 'ingredients' | 'components' | 'totalFlourGrams'>): Map<string, number> => {
+  const gramsByName = new Map<string, number>();
+  for (const ing of getCombinedIngredients(recipe)) {
+    gramsByName.set(ing.name, (gramsByName.get(ing.name) ?? 0) + getIngredientGrams(ing, recipe.totalFlourGrams));
+  }
+  return gramsByName;
+};
+
+/**
+ * Scales a recipe so that it makes a given weight of dough, components included.
+ * @param {Recipe} recipe - The recipe.
+ * @param {number} doughWeightGrams - The dough weight to make, in grams.
+ * @returns {Recipe} The recipe with its totalFlourGrams set for that dough weight, or 0 if it has no ingredients.
+ */
+export const scaleRecipeToDoughWeight = (recipe: Recipe, doughWeightGrams: number): Recipe => {
+  const totalPercentage = getTotalDoughPercentage(recipe);
+  return { ...recipe, totalFlourGrams: totalPercentage > 0 ? (doughWeightGrams / totalPercentage) * 100 : 0 };
+};
+
+/**
+ * Sums the weight of all ingredients in a category that are added in the final dough, not in its components.
+ * @param {Recipe} recipe - The recipe.
+ * @param {IngredientCategory} category - The category to sum.
+ * @returns {number} The total weight in grams.
+ */
+export const getCategoryGrams = (recipe: Recipe, category: IngredientCategory): number =>
+  recipe.ingredients
+    .filter(ing => getIngredientInfo(ing.name)?.category === category)
+    .reduce((acc, ing) => acc + getIngredientGrams(ing, recipe.totalFlourGrams), 0);
+
+/**
+ * Returns the levain hydration of a recipe, falling back to the default when it is not set.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {number} The levain hydration as a percentage.
+ */
+export const getLevainHydration = (recipe: Pick<Recipe, 'levainHydration'>): number =>
+  recipe.levainHydration ?? DEFAULT_LEVAIN_HYDRATION;
+
+/**
+ * Splits a weight of levain into the flour and water it contains.
+ * @param {number} levainGrams - The weight of levain in grams.
+ * @param {number} levainHydration - The levain hydration as a percentage.
+ * @returns {{ flourGrams: number; waterGrams: number }} The flour and water in the levain.
+ */
+export const splitLevain = (levainGrams: number, levainHydration: number): { flourGrams: number; waterGrams: number } => ({
+  flourGrams: levainGrams * 100 / (100 + levainHydration),
+  waterGrams: levainGrams * levainHydration / (100 + levainHydration),
+});
+
+/**
+ * Calculates the true flour and water content of a recipe, including its components.
+ * The Sourdough Levain is decomposed into flour and water using the recipe's levain hydration,
+ * and liquids such as milk only contribute the water they contain.
+ * @param {Recipe} recipe - The recipe to analyze.
+ * @returns {DoughComposition} The true flour, water and hydration of the dough.
+ */
+export const calculateDoughComposition = (recipe: Recipe): DoughComposition => {
+  const levainHydration = getLevainHydration(recipe);
+  let totalFlourGrams = 0;
+  let totalWaterGrams = 0;
+
+  for (const ing of getCombinedIngredients(recipe)) {
+    const grams = getIngredientGrams(ing, recipe.totalFlourGrams);
+    if (ing.name === LEVAIN_INGREDIENT_NAME) {
+      const levain = splitLevain(grams, levainHydration);
+      totalFlourGrams += levain.flourGrams;
+      totalWaterGrams += levain.waterGrams;
+      continue;
+    }
+    const info = getIngredientInfo(ing.name);
+    if (info?.category === 'Flour') {
+      totalFlourGrams += grams;
+    } else if (info?.waterContent) {
+      totalWaterGrams += grams * info.waterContent;
+    }
+  }
+
+  return {
+    totalFlourGrams,
+    totalWaterGrams,
+    hydration: totalFlourGrams > 0 ? (totalWaterGrams / totalFlourGrams) * 100 : 0,
+  };
+};
+
+/**
+ * Calculates the share of a recipe's total flour that is prefermented: the flour held in the Sourdough Levain
+ * plus the flour in any preferment components.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {number} The prefermented flour as a percentage of the true total flour.
+ */
+export const getPrefermentedFlourPercentage = (recipe: Recipe): number => {
+  const { totalFlourGrams } = calculateDoughComposition(recipe);
+  if (totalFlourGrams <= 0) return 0;
+  const levainGrams = getCombinedIngredients(recipe)
+    .filter(ing => ing.name === LEVAIN_INGREDIENT_NAME)
+    .reduce((acc, ing) => acc + getIngredientGrams(ing, recipe.totalFlourGrams), 0);
+  const prefermentFlourGrams = (recipe.components ?? [])
+    .filter(component => component.kind === 'preferment')
+    .flatMap(component => getComponentIngredientsInRecipe(recipe, component))
+    .filter(ing => getIngredientInfo(ing.name)?.category === 'Flour')
+    .reduce((acc, ing) => acc + getIngredientGrams(ing, recipe.totalFlourGrams), 0);
+  const prefermentedGrams = splitLevain(levainGrams, getLevainHydration(recipe)).flourGrams + prefermentFlourGrams;
+  return (prefermentedGrams / totalFlourGrams) * 100;
+};
+
+/**
+ * Calculates a recipe's salt as a percentage of its true total flour, including the flour in the levain.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {number} The salt percentage.
+ */
+export const getSaltPercentage = (recipe: Recipe): number => {
+  const { totalFlourGrams } = calculateDoughComposition(recipe);
+  if (totalFlourGrams <= 0) return 0;
+  const saltGrams = getCombinedIngredients(recipe)
+    .filter(ing => ing.name === SALT_INGREDIENT_NAME)
+    .reduce((acc, ing) => acc + getIngredientGrams(ing, recipe.totalFlourGrams), 0);
+  return (saltGrams / totalFlourGrams) * 100;
+};
+
+/**
+ * Lists the flours used in a recipe and its components, in recipe order.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {string[]} The names of the recipe's flour ingredients.
+ */
+export const getFlourTypes = (recipe: Recipe): string[] =>
+  [...new Set(getCombinedIngredients(recipe).filter(ing => getIngredientInfo(ing.name)?.category === 'Flour').map(ing => ing.name))];
+
+/**
+ * Determines how a recipe is leavened. Any leavening other than the Sourdough Levain counts as commercial yeast.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {LeaveningType} The leavening type.
+ */
+export const getLeaveningType = (recipe: Recipe): LeaveningType => {
+  const leavenings = getCombinedIngredients(recipe).filter(ing => ing.percentage > 0 && getIngredientInfo(ing.name)?.category === 'Leavening');
+  const hasLevain = leavenings.some(ing => ing.name === LEVAIN_INGREDIENT_NAME);
+  const hasYeast = leavenings.some(ing => ing.name !== LEVAIN_INGREDIENT_NAME);
+  if (hasLevain && hasYeast) return 'hybrid';
+  if (hasLevain) return 'levain';
+  return hasYeast ? 'yeast' : 'none';
+};
+
+/**
+ * Calculates a recipe's enrichment: fats, sugars and milk solids as a percentage of the overall flour.
+ * Enrichment ingredients and the sweetener count in full; dairy liquids count only for their non-water solids.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {number} The enrichment percentage.
+ */
+export const getEnrichmentPercentage = (recipe: Recipe): number =>
+  getOverallFormula(recipe).reduce((acc, ing) => {
+    const info = getIngredientInfo(ing.name);
+    if (info?.category === 'Enrichment' || ing.name === SWEETENER_INGREDIENT_NAME) {
+      return acc + ing.percentage;
+    }
+    if (info?.category === 'Liquid' && info.waterContent !== undefined && info.waterContent < 1) {
+      return acc + ing.percentage * (1 - info.waterContent);
+    }
+    return acc;
+  }, 0);
+
+/**
+ * Determines whether a recipe is an enriched dough rather than a lean one.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {boolean} True if the recipe's enrichment reaches the enriched threshold.
+ */
+export const isEnriched = (recipe: Recipe): boolean => getEnrichmentPercentage(recipe) >= ENRICHED_THRESHOLD_PERCENTAGE;
@@ -0,0 +1,122 @@
+/**
+ * @file Lines up several recipes ingredient by ingredient so their formulas can be compared side by side.
+ */
+
+import { Recipe, IngredientCategory } from '../types';
+import { INGREDIENT_CATEGORIES } from '../constants';
+import { getIngredientInfo } from './ingredientCatalog';
+import {
+  getTotalPercentage,
+  getOverallFormula,
+  calculateDoughComposition,
+  getPrefermentedFlourPercentage,
+  getSaltPercentage,
+  getEnrichmentPercentage,
+} from './recipeCalculations';
+
+/**
+ * One recipe's amount of an ingredient in a comparison.
+ */
+export interface ComparisonCell {
+  /** The baker's percentage in the overall formula, combining every line of the ingredient in the recipe and its components. */
+  percentage: number;
+  /** The weight at the comparison's dough weight, in grams. */
+  grams: number;
+}
+
+/**
+ * An ingredient and its amount in each compared recipe.
+ */
+export interface ComparisonRow {
+  name: string;
+  /** The ingredient's category, or undefined if it isn't in the catalog. */
+  category?: IngredientCategory;
+  /** One cell per recipe, in the order the recipes were given; null where a recipe doesn't use the ingredient. */
+  cells: (ComparisonCell | null)[];
+  /** True if any recipe's percentage differs from the first recipe's. */
+  differs: boolean;
+}
+
+/**
+ * The derived figures shown beneath the ingredients in a comparison, all as percentages.
+ */
+export interface RecipeMetrics {
+  hydration: number;
+  prefermentedFlour: number;
+  salt: number;
+  enrichment: number;
+}
+
+/**
+ * The labels for each derived metric, in display order.
+ */
+export const METRIC_LABELS: Record<keyof RecipeMetrics, string> = {
+  hydration: 'True Hydration',
+  prefermentedFlour: 'Prefermented Flour',
+  salt: 'Salt',
+  enrichment: 'Enrichment',
+};
+
+/**
+ * Determines whether two percentages differ once rounded to the single decimal place they are shown with.
+ * @param {number | undefined} a - One percentage, or undefined if absent.
+ * @param {number | undefined} b - The other percentage, or undefined if absent.
+ * @returns {boolean} True if the values differ.
+ */
+export const percentagesDiffer = (a: number | undefined, b: number | undefined): boolean =>
+  a?.toFixed(1) !== b?.toFixed(1);
+
+/**
+ * Calculates a recipe's derived metrics.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {RecipeMetrics} Its true hydration, prefermented flour, salt and enrichment percentages.
+ */
+export const getRecipeMetrics = (recipe: Recipe): RecipeMetrics => ({
+  hydration: calculateDoughComposition(recipe).hydration,
+  prefermentedFlour: getPrefermentedFlourPercentage(recipe),
+  salt: getSaltPercentage(recipe),
+  enrichment: getEnrichmentPercentage(recipe),
+});
+
+/**
+ * Builds the rows of a comparison table covering every ingredient used by any of the recipes.
+ * Rows are grouped by category in the usual order, and otherwise keep the order the ingredients first appear in.
+ * Weights are calculated as if every recipe made the same total dough weight.
+ * @param {Recipe[]} recipes - The recipes to compare; the first is the baseline for differences.
+ * @param {number} doughWeightGrams - The common dough weight in grams.
+ * @returns {ComparisonRow[]} One row per ingredient.
+ */
+export const buildComparisonRows = (recipes: Recipe[], doughWeightGrams: number): ComparisonRow[] => {
+  const names: string[] = [];
+  const formulas = recipes.map(getOverallFormula);
+  const totalsByRecipe = formulas.map(formula => {
+    for (const ing of formula) {
+      if (!names.includes(ing.name)) names.push(ing.name);
+    }
+    return new Map(formula.map(ing => [ing.name, ing.percentage]));
+  });
+  const flourGramsByRecipe = formulas.map(formula => {
+    const totalPercentage = getTotalPercentage(formula);
+    return totalPercentage > 0 ? (doughWeightGrams / totalPercentage) * 100 : 0;
+  });
+  const categoryRank = (name: string): number => {
+    const category = getIngredientInfo(name)?.category;
+    return category ? INGREDIENT_CATEGORIES.indexOf(category) : INGREDIENT_CATEGORIES.length;
+  };
+
+  return names
+    .map((name, order) => ({ name, order, rank: categoryRank(name) }))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .map(({ name }) => {
+      const cells = totalsByRecipe.map((totals, index) => {
+        const percentage = totals.get(name);
+        return percentage === undefined ? null : { percentage, grams: (percentage / 100) * flourGramsByRecipe[index] };
+      });
+      return {
+        name,
+        category: getIngredientInfo(name)?.category,
+        cells,
+        differs: cells.some(cell => percentagesDiffer(cell?.percentage, cells[0]?.percentage)),
+      };
+    });
+};
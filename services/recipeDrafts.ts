@@ -0,0 +1,78 @@
+/**
+ * @file Keeps unsaved edits to a recipe on this device, so a reload or a closed tab doesn't lose them.
+ */
+
+import { Recipe } from '../types';
+import { isStoredRecipe } from './recipeRepository';
+
+/**
+ * A recipe's unsaved edits.
+ */
+export interface RecipeDraft {
+  /** The recipe as it was being edited. */
+  recipe: Recipe;
+  /** When the draft was written, in milliseconds since the Unix epoch. */
+  savedAt: number;
+}
+
+// Keyed by library as well as recipe, so a draft never appears in another account's copy of a recipe.
+const getDraftKey = (libraryId: string, recipeId: string): string => `recipeDraft-${libraryId}-${recipeId}`;
+
+/**
+ * Writes the draft of a recipe, replacing any earlier draft of it.
+ * Drafts are a safety net, so a failed write (e.g., storage is full) is logged rather than reported.
+ * @param {string} libraryId - The library the recipe belongs to: the user's id, or the guest library's.
+ * @param {Recipe} recipe - The recipe being edited.
+ * @param {number} [now] - The time of the write.
+ */
+export const saveDraft = (libraryId: string, recipe: Recipe, now: number = Date.now()): void => {
+  const draft: RecipeDraft = { recipe, savedAt: now };
+  try {
+    localStorage.setItem(getDraftKey(libraryId, recipe.id), JSON.stringify(draft));
+  } catch (err) {
+    console.warn(`The draft of "${recipe.name}" could not be saved:`, err);
+  }
+};
+
+/**
+ * Reads the draft of a recipe. A draft that can't be read is removed.
+ * @param {string} libraryId - The library the recipe belongs to.
+ * @param {string} recipeId - The recipe.
+ * @returns {RecipeDraft | null} The draft, or null if there is none.
+ */
+export const loadDraft = (libraryId: string, recipeId: string): RecipeDraft | null => {
+  try {
+    const draft = JSON.parse(localStorage.getItem(getDraftKey(libraryId, recipeId)) ?? 'null');
+    if (draft === null) return null;
+    if (typeof draft.savedAt === 'number' && isStoredRecipe(draft.recipe) && draft.recipe.id === recipeId) {
+      return draft;
+    }
+  } catch {
+    // Fall through and remove the unreadable draft.
+  }
+  clearDraft(libraryId, recipeId);
+  return null;
+};
+
+/**
+ * Removes the draft of a recipe, e.g., once it has been saved, its changes discarded, or the recipe deleted.
+ * @param {string} libraryId - The library the recipe belongs to.
+ * @param {string} recipeId - The recipe.
+ */
+export const clearDraft = (libraryId: string, recipeId: string): void => {
+  localStorage.removeItem(getDraftKey(libraryId, recipeId));
+};
+
+/**
+ * Moves the draft of a recipe that has moved to another library or id, e.g., a guest recipe added to an account.
+ * @param {string} fromLibraryId - The library the recipe was in.
+ * @param {string} fromRecipeId - The recipe's id there.
+ * @param {string} toLibraryId - The library the recipe is now in.
+ * @param {string} toRecipeId - The recipe's id there.
+ */
+export const moveDraft = (fromLibraryId: string, fromRecipeId: string, toLibraryId: string, toRecipeId: string): void => {
+  const draft = loadDraft(fromLibraryId, fromRecipeId);
+  if (!draft) return;
+  saveDraft(toLibraryId, { ...draft.recipe, id: toRecipeId }, draft.savedAt);
+  clearDraft(fromLibraryId, fromRecipeId);
+};
@@ -0,0 +1,237 @@
+/**
+ * @file Exports recipes as a native JSON bundle, CSV or schema.org JSON-LD, and imports bundles and JSON-LD back.
+ */
+
+import { Recipe } from '../types';
+import { getIngredientGrams, getCombinedIngredients, getComponentIngredientsInRecipe, getTotalDoughPercentage } from './recipeCalculations';
+import { parseRecipeLocally } from './localRecipeParser';
+import { addTags } from './recipeOrganization';
+import { isStoredRecipe } from './recipeRepository';
+
+/**
+ * Identifies files produced by this app's native export.
+ */
+export const RECIPE_BUNDLE_FORMAT = 'bread-calculator-recipes';
+
+/**
+ * The current version of the native bundle. Increment it when the bundle or Recipe shape changes incompatibly.
+ */
+export const RECIPE_BUNDLE_VERSION = 1;
+
+/**
+ * The structure of a native JSON export.
+ */
+export interface RecipeBundle {
+  format: typeof RECIPE_BUNDLE_FORMAT;
+  version: number;
+  /** When the bundle was created, as an ISO 8601 string. */
+  exportedAt: string;
+  recipes: Recipe[];
+}
+
+/**
+ * The export formats offered to the user.
+ */
+export type ExportFormat = 'json' | 'csv' | 'jsonld';
+
+/**
+ * The result of importing a recipe file.
+ */
+export interface RecipeFileImportResult {
+  /** The imported recipes, with ids that don't collide with existing recipes. */
+  recipes: Recipe[];
+  /** Names or descriptions of entries that could not be imported. */
+  skipped: string[];
+}
+
+/**
+ * Serializes recipes as a versioned native JSON bundle, which preserves every field, including revision history.
+ * @param {Recipe[]} recipes - The recipes to export.
+ * @returns {string} The JSON bundle.
+ */
+export const exportRecipesAsJson = (recipes: Recipe[]): string => {
+  const bundle: RecipeBundle = {
+    format: RECIPE_BUNDLE_FORMAT,
+    version: RECIPE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    recipes,
+  };
+  return JSON.stringify(bundle, null, 2);
+};
+
+const escapeCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes recipes as CSV with one row per ingredient: recipe, ingredient, baker's percentage and grams.
+ * @param {Recipe[]} recipes - The recipes to export.
+ * @returns {string} The CSV text.
+ */
+export const exportRecipesAsCsv = (recipes: Recipe[]): string => {
+  const rows: (string | number)[][] = [['Recipe', 'Ingredient', 'Percentage', 'Grams']];
+  for (const recipe of recipes) {
+    for (const ing of recipe.ingredients) {
+      rows.push([recipe.name, ing.name, ing.percentage, getIngredientGrams(ing, recipe.totalFlourGrams).toFixed(1)]);
+    }
+    // Component ingredients are named after their component and keep the component's own percentages.
+    for (const component of recipe.components ?? []) {
+      getComponentIngredientsInRecipe(recipe, component).forEach((ing, index) => {
+        rows.push([recipe.name, `${component.name}: ${ing.name}`, component.ingredients[index].percentage, getIngredientGrams(ing, recipe.totalFlourGrams).toFixed(1)]);
+      });
+    }
+  }
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+const toJsonLd = (recipe: Recipe) => {
+  const doughWeight = (getTotalDoughPercentage(recipe) / 100) * recipe.totalFlourGrams;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    identifier: recipe.id,
+    name: recipe.name,
+    description: recipe.description,
+    recipeYield: `${doughWeight.toFixed(0)} g dough`,
+    keywords: recipe.tags?.length ? recipe.tags.join(', ') : undefined,
+    recipeIngredient: getCombinedIngredients(recipe).map(ing => `${getIngredientGrams(ing, recipe.totalFlourGrams).toFixed(1)} g ${ing.name}`),
+  };
+};
+
+/**
+ * Serializes recipes as schema.org Recipe JSON-LD, with ingredient amounts in grams.
+ * A single recipe is exported as one object; several are exported as an array.
+ * @param {Recipe[]} recipes - The recipes to export.
+ * @returns {string} The JSON-LD text.
+ */
+export const exportRecipesAsJsonLd = (recipes: Recipe[]): string => {
+  const documents = recipes.map(toJsonLd);
+  return JSON.stringify(documents.length === 1 ? documents[0] : documents, null, 2);
+};
+
+const EXPORTERS: Record<ExportFormat, { serialize: (recipes: Recipe[]) => string; extension: string; mimeType: string }> = {
+  json: { serialize: exportRecipesAsJson, extension: 'json', mimeType: 'application/json' },
+  csv: { serialize: exportRecipesAsCsv, extension: 'csv', mimeType: 'text/csv' },
+  jsonld: { serialize: exportRecipesAsJsonLd, extension: 'jsonld', mimeType: 'application/ld+json' },
+};
+
+/**
+ * Exports recipes in the given format and starts a download in the browser.
+ * @param {Recipe[]} recipes - The recipes to export.
+ * @param {ExportFormat} format - The export format.
+ * @param {string} baseName - The file name without extension (e.g., the recipe name).
+ */
+export const downloadRecipes = (recipes: Recipe[], format: ExportFormat, baseName: string): void => {
+  const exporter = EXPORTERS[format];
+  const blob = new Blob([exporter.serialize(recipes)], { type: exporter.mimeType });
+  const url = URL.createObjectURL(blob);
+  const slug = baseName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'recipes';
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug}.${exporter.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// A bundle's contents are checked entry by entry, so only its format marker is relied on here.
+const isRecipeBundle = (data: unknown): data is JsonObject & Pick<RecipeBundle, 'format'> =>
+  isJsonObject(data) && data.format === RECIPE_BUNDLE_FORMAT;
+
+// Collects every schema.org Recipe node from a JSON-LD document, including those nested in arrays or @graph.
+const findJsonLdRecipes = (data: unknown): JsonObject[] => {
+  if (Array.isArray(data)) return data.flatMap(findJsonLdRecipes);
+  if (!isJsonObject(data)) return [];
+  if (Array.isArray(data['@graph'])) return findJsonLdRecipes(data['@graph']);
+  const types = Array.isArray(data['@type']) ? data['@type'] : [data['@type']];
+  return types.includes('Recipe') ? [data] : [];
+};
+
+// Converts a JSON-LD Recipe node using the local parser, so no AI call is needed.
+const fromJsonLd = (node: JsonObject): Omit<Recipe, 'id' | 'isStandard'> | null => {
+  if (!Array.isArray(node.recipeIngredient)) return null;
+  const name = typeof node.name === 'string' ? node.name : 'Imported Recipe';
+  const { recipe } = parseRecipeLocally([name, ...node.recipeIngredient.map(String)].join('\n'));
+  if (!recipe) return null;
+  // schema.org allows keywords as one comma-separated string or as a list.
+  const keywords = Array.isArray(node.keywords) ? node.keywords.join(',') : typeof node.keywords === 'string' ? node.keywords : '';
+  const tags = addTags([], keywords);
+  return {
+    ...recipe,
+    name,
+    description: typeof node.description === 'string' ? node.description : recipe.description,
+    ...(tags.length > 0 && { tags }),
+  };
+};
+
+/**
+ * Reads a native JSON bundle or schema.org Recipe JSON-LD into recipes, without calling the AI.
+ * Imported recipes are never standard. Ids that collide with existing recipes (or with each other) are replaced.
+ * @param {string} text - The file contents.
+ * @param {Recipe[]} existingRecipes - The recipes already in the library.
+ * @returns {RecipeFileImportResult} The imported recipes and any entries that were skipped.
+ * @throws {Error} If the file isn't valid JSON, isn't a recognized format, or is from a newer app version.
+ */
+export const importRecipesFromFile = (text: string, existingRecipes: Recipe[]): RecipeFileImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON. Only JSON bundles and JSON-LD can be imported.");
+  }
+
+  const candidates: { id?: string; recipe: Omit<Recipe, 'id' | 'isStandard'> }[] = [];
+  const skipped: string[] = [];
+
+  if (isRecipeBundle(data)) {
+    if (typeof data.version !== 'number' || data.version > RECIPE_BUNDLE_VERSION) {
+      throw new Error(`This bundle was made by a newer version of the app (version ${data.version}).`);
+    }
+    const entries: unknown[] = Array.isArray(data.recipes) ? data.recipes : [];
+    for (const entry of entries) {
+      // Imported recipes are given fresh ids where needed, so a missing id doesn't make an entry invalid.
+      const candidate = isJsonObject(entry) ? { id: '', ...entry } : null;
+      if (isStoredRecipe(candidate)) {
+        const { id, isStandard, ...recipe } = candidate;
+        candidates.push({ id, recipe });
+      } else {
+        skipped.push(isJsonObject(entry) && typeof entry.name === 'string' ? entry.name : 'Unnamed recipe');
+      }
+    }
+  } else {
+    const nodes = findJsonLdRecipes(data);
+    if (nodes.length === 0) {
+      throw new Error("No recipes were found. The file must be a recipe bundle or schema.org Recipe JSON-LD.");
+    }
+    for (const node of nodes) {
+      const recipe = fromJsonLd(node);
+      if (recipe) {
+        candidates.push({ id: typeof node.identifier === 'string' ? node.identifier : undefined, recipe });
+      } else {
+        skipped.push(typeof node.name === 'string' ? node.name : 'Unnamed recipe');
+      }
+    }
+  }
+
+  const usedIds = new Set(existingRecipes.map(r => r.id));
+  const now = Date.now();
+  let counter = 0;
+  const recipes = candidates.map(({ id, recipe }) => {
+    let newId = id && id.startsWith('user-') ? id : `user-${now}-${counter++}`;
+    while (usedIds.has(newId)) {
+      newId = `user-${now}-${counter++}`;
+    }
+    usedIds.add(newId);
+    return { ...recipe, id: newId, isStandard: false };
+  });
+
+  return { recipes, skipped };
+};
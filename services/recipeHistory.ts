@@ -0,0 +1,116 @@
+/**
+ * @file Records, compares and restores recipe revisions, and copies recipes into new ones derived from them.
+ */
+
+import { Recipe, RecipeRevision, RecipeSnapshot, IngredientChange, Ingredient } from '../types';
+import { getRecipeCreatedAt } from './recipeLibrary';
+import { getOverallFormula } from './recipeCalculations';
+
+/**
+ * Captures the formula-related content of a recipe.
+ * @param {Recipe} recipe - The recipe to capture.
+ * @returns {RecipeSnapshot} A deep copy of the recipe's content, without its id, flags, history, tags, collections, change time or origin.
+ */
+export const createSnapshot = (recipe: Recipe): RecipeSnapshot => {
+  const { id, isStandard, revisions, tags, collections, updatedAt, derivedFrom, ...snapshot } = recipe;
+  return JSON.parse(JSON.stringify(snapshot));
+};
+
+/**
+ * Records a new revision for a recipe that is being saved.
+ * The stored recipe's existing history is kept; if it has none yet, its previous content is recorded first
+ * so that the formula being overwritten can still be restored.
+ * @param {Recipe | undefined} previous - The recipe as currently stored, if it exists.
+ * @param {Recipe} updated - The recipe being saved.
+ * @param {number} [savedAt] - The time of the save.
+ * @returns {Recipe} The updated recipe with its revision history.
+ */
+export const addRevision = (previous: Recipe | undefined, updated: Recipe, savedAt: number = Date.now()): Recipe => {
+  let revisions = previous?.revisions ?? [];
+  if (previous && revisions.length === 0) {
+    revisions = [{ savedAt: getRecipeCreatedAt(previous) ?? savedAt, snapshot: createSnapshot(previous) }];
+  }
+  const snapshot = createSnapshot(updated);
+  const latest = revisions[revisions.length - 1];
+  if (latest && JSON.stringify(latest.snapshot) === JSON.stringify(snapshot)) {
+    // Only the tags or collections changed, so there is no new formula to record.
+    return { ...updated, revisions };
+  }
+  return {
+    ...updated,
+    revisions: [...revisions, { savedAt, snapshot }],
+  };
+};
+
+const sumPercentagesByName = (ingredients: Ingredient[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const ing of ingredients) {
+    totals.set(ing.name, (totals.get(ing.name) ?? 0) + ing.percentage);
+  }
+  return totals;
+};
+
+/**
+ * Compares the baker's percentages of two ingredient lists.
+ * Ingredients listed more than once are compared by their combined percentage.
+ * @param {Ingredient[]} from - The original ingredients.
+ * @param {Ingredient[]} to - The changed ingredients.
+ * @returns {IngredientChange[]} The ingredients whose percentage changed, were added or were removed.
+ */
+export const diffIngredients = (from: Ingredient[], to: Ingredient[]): IngredientChange[] => {
+  const fromTotals = sumPercentagesByName(from);
+  const toTotals = sumPercentagesByName(to);
+  const names = [...new Set([...fromTotals.keys(), ...toTotals.keys()])];
+
+  return names
+    .map(name => ({
+      name,
+      fromPercentage: fromTotals.get(name) ?? null,
+      toPercentage: toTotals.get(name) ?? null,
+    }))
+    .filter(change => change.fromPercentage !== change.toPercentage);
+};
+
+/**
+ * Compares the overall formulas of two revisions, so changes inside components are included.
+ * @param {RecipeRevision} from - The older revision.
+ * @param {RecipeRevision} to - The newer revision.
+ * @returns {IngredientChange[]} The ingredients whose percentage changed, were added or were removed.
+ */
+export const diffRevisions = (from: RecipeRevision, to: RecipeRevision): IngredientChange[] =>
+  diffIngredients(getOverallFormula(from.snapshot), getOverallFormula(to.snapshot));
+
+/**
+ * Applies a revision's content to a recipe, keeping the recipe's id, flags, history, tags, collections and origin.
+ * @param {Recipe} recipe - The recipe to restore.
+ * @param {RecipeRevision} revision - The revision to restore.
+ * @returns {Recipe} The recipe with the revision's content.
+ */
+export const restoreRevision = (recipe: Recipe, revision: RecipeRevision): Recipe => ({
+  id: recipe.id,
+  isStandard: recipe.isStandard,
+  revisions: recipe.revisions,
+  tags: recipe.tags,
+  collections: recipe.collections,
+  updatedAt: recipe.updatedAt,
+  derivedFrom: recipe.derivedFrom,
+  ...JSON.parse(JSON.stringify(revision.snapshot)),
+});
+
+/**
+ * Copies a recipe into a new, editable recipe of the user's own that remembers where it came from.
+ * The copy starts without history; its first revision is recorded when it is added to the library.
+ * @param {Recipe} parent - The recipe to copy, typically a standard one.
+ * @param {number} [now] - The time of the copy, used for the new id.
+ * @returns {Recipe} The copy.
+ */
+export const createDerivedRecipe = (parent: Recipe, now: number = Date.now()): Recipe => ({
+  ...createSnapshot(parent),
+  id: `user-${now}`,
+  name: `${parent.name} (my copy)`,
+  isStandard: false,
+  tags: parent.tags && [...parent.tags],
+  collections: parent.collections && [...parent.collections],
+  updatedAt: now,
+  derivedFrom: parent.id,
+});
@@ -0,0 +1,122 @@
+/**
+ * @file Searches, filters and sorts the recipe library.
+ */
+
+import { Recipe, LeaveningType } from '../types';
+import { calculateDoughComposition, getFlourTypes, getLeaveningType, isEnriched } from './recipeCalculations';
+
+/**
+ * The ways the library can be sorted.
+ */
+export type LibrarySortOrder = 'name' | 'hydration' | 'dateAdded';
+
+/**
+ * The search, filter and sort settings for the recipe library. Filters left empty or at 'all' match every recipe.
+ */
+export interface LibraryFilters {
+  /** Text to find in the recipe name, description or tags. */
+  search: string;
+  /** The collection being browsed, or '' for all recipes. */
+  collection: string;
+  /** A flour the recipe must contain, or '' for any. */
+  flourType: string;
+  /** The minimum true hydration, or null for no lower bound. */
+  minHydration: number | null;
+  /** The maximum true hydration, or null for no upper bound. */
+  maxHydration: number | null;
+  /** 'levain' and 'yeast' also match hybrid recipes that use both. */
+  leavening: 'all' | Exclude<LeaveningType, 'hybrid' | 'none'>;
+  richness: 'all' | 'enriched' | 'lean';
+  source: 'all' | 'standard' | 'saved';
+  sortBy: LibrarySortOrder;
+}
+
+/**
+ * The library settings before the user changes anything: no filters, sorted by name.
+ */
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  search: '',
+  collection: '',
+  flourType: '',
+  minHydration: null,
+  maxHydration: null,
+  leavening: 'all',
+  richness: 'all',
+  source: 'all',
+  sortBy: 'name',
+};
+
+/**
+ * Reads the creation time encoded in user recipe ids (e.g., 'user-1678886400000', or 'user-1678886400000-2' for file imports).
+ * @param {Recipe} recipe - The recipe.
+ * @returns {number | undefined} The creation time in milliseconds, or undefined for standard recipes.
+ */
+export const getRecipeCreatedAt = (recipe: Recipe): number | undefined => {
+  const match = recipe.id.match(/^user-(\d+)(?:-\d+)?$/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Lists every flour used across the given recipes, for the flour filter.
+ * @param {Recipe[]} recipes - The recipes in the library.
+ * @returns {string[]} The flour names, sorted alphabetically.
+ */
+export const getLibraryFlourTypes = (recipes: Recipe[]): string[] =>
+  [...new Set(recipes.flatMap(getFlourTypes))].sort((a, b) => a.localeCompare(b));
+
+// The collection is chosen in the sidebar and the sort order doesn't hide recipes, so neither counts as a filter.
+const NON_FILTER_KEYS: (keyof LibraryFilters)[] = ['collection', 'sortBy'];
+
+/**
+ * Determines whether any filter differs from the defaults.
+ * @param {LibraryFilters} filters - The current settings.
+ * @returns {boolean} True if some recipes may be hidden.
+ */
+export const hasActiveFilters = (filters: LibraryFilters): boolean =>
+  (Object.keys(DEFAULT_LIBRARY_FILTERS) as (keyof LibraryFilters)[])
+    .some(key => !NON_FILTER_KEYS.includes(key) && filters[key] !== DEFAULT_LIBRARY_FILTERS[key]);
+
+const matchesLeavening = (recipe: Recipe, leavening: LibraryFilters['leavening']): boolean => {
+  if (leavening === 'all') return true;
+  const type = getLeaveningType(recipe);
+  return type === leavening || type === 'hybrid';
+};
+
+/**
+ * Applies the library's search and filters, then sorts the matching recipes.
+ * Hydration is the true hydration, so levain and dairy are accounted for just as in the recipe list.
+ * @param {Recipe[]} recipes - The recipes in the library.
+ * @param {LibraryFilters} filters - The search, filter and sort settings.
+ * @returns {Recipe[]} The matching recipes in display order.
+ */
+export const filterAndSortRecipes = (recipes: Recipe[], filters: LibraryFilters): Recipe[] => {
+  const search = filters.search.trim().toLowerCase();
+  const entries = recipes.map(recipe => ({ recipe, hydration: calculateDoughComposition(recipe).hydration }));
+
+  const matches = entries.filter(({ recipe, hydration }) => {
+    if (search && ![recipe.name, recipe.description, ...(recipe.tags ?? [])].join('\n').toLowerCase().includes(search)) return false;
+    if (filters.collection && !recipe.collections?.includes(filters.collection)) return false;
+    if (filters.flourType && !getFlourTypes(recipe).includes(filters.flourType)) return false;
+    if (filters.minHydration !== null && hydration < filters.minHydration) return false;
+    if (filters.maxHydration !== null && hydration > filters.maxHydration) return false;
+    if (!matchesLeavening(recipe, filters.leavening)) return false;
+    if (filters.richness !== 'all' && isEnriched(recipe) !== (filters.richness === 'enriched')) return false;
+    if (filters.source !== 'all' && !!recipe.isStandard !== (filters.source === 'standard')) return false;
+    return true;
+  });
+
+  const byName = (a: Recipe, b: Recipe) => a.name.localeCompare(b.name);
+  switch (filters.sortBy) {
+    case 'hydration':
+      matches.sort((a, b) => a.hydration - b.hydration || byName(a.recipe, b.recipe));
+      break;
+    case 'dateAdded':
+      // Newest first; standard recipes have no creation time and come last.
+      matches.sort((a, b) => (getRecipeCreatedAt(b.recipe) ?? 0) - (getRecipeCreatedAt(a.recipe) ?? 0) || byName(a.recipe, b.recipe));
+      break;
+    case 'name':
+    default:
+      matches.sort((a, b) => byName(a.recipe, b.recipe));
+  }
+  return matches.map(({ recipe }) => recipe);
+};
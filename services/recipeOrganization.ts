@@ -0,0 +1,53 @@
+/**
+ * @file Tags and collections, the two ways of grouping recipes in the library.
+ */
+
+import { Recipe } from '../types';
+
+/**
+ * Normalizes a tag as typed by the user, so that "Pizza " and "pizza" are the same tag.
+ * @param {string} tag - The raw tag text.
+ * @returns {string} The tag in lower case with surrounding and repeated whitespace removed.
+ */
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Adds one or more comma-separated tags to a tag list, skipping blanks and duplicates.
+ * @param {string[]} tags - The existing tags.
+ * @param {string} input - The text entered by the user, e.g. "pizza, holiday".
+ * @returns {string[]} The combined tags.
+ */
+export const addTags = (tags: string[], input: string): string[] => {
+  const added = input.split(',').map(normalizeTag).filter(Boolean);
+  return [...new Set([...tags, ...added])];
+};
+
+/**
+ * Lists the library's collections: the user's saved collections in their saved order, followed by any
+ * collection that a recipe refers to but isn't saved (e.g., one that arrived with an imported recipe).
+ * @param {string[]} savedCollections - The user's collection names.
+ * @param {Recipe[]} recipes - The recipes in the library.
+ * @returns {string[]} Every collection name.
+ */
+export const getCollectionNames = (savedCollections: string[], recipes: Recipe[]): string[] =>
+  [...new Set([...savedCollections, ...recipes.flatMap(r => r.collections ?? [])])];
+
+/**
+ * Counts the recipes in a collection.
+ * @param {Recipe[]} recipes - The recipes in the library.
+ * @param {string} collection - The collection name.
+ * @returns {number} The number of recipes that belong to it.
+ */
+export const countRecipesInCollection = (recipes: Recipe[], collection: string): number =>
+  recipes.filter(r => r.collections?.includes(collection)).length;
+
+/**
+ * Takes every recipe out of a collection, for when the collection is deleted. The recipes themselves are kept.
+ * @param {Recipe[]} recipes - The recipes in the library.
+ * @param {string} collection - The collection being deleted.
+ * @returns {Recipe[]} The recipes, with those that were in the collection updated.
+ */
+export const removeCollectionFromRecipes = (recipes: Recipe[], collection: string): Recipe[] =>
+  recipes.map(r => r.collections?.includes(collection)
+    ? { ...r, collections: r.collections.filter(c => c !== collection) }
+    : r);
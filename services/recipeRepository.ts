@@ -0,0 +1,319 @@
+/**
+ * @file Persists a user's recipes, ingredients, prices, pantry, planned bakes, bake log, collections and sync state
+ * as versioned documents, migrating old data on load and quarantining records that fail validation.
+ */
+
+import { Recipe, IngredientInfo, IngredientPrice, PantryItem, PlannedBake, BakeLogEntry, RecipeSyncState } from '../types';
+import { INGREDIENT_CATEGORIES } from '../constants';
+import { StorageBackend } from './storageBackends';
+
+/**
+ * The current version of stored documents. Increment it and add a migration whenever a stored shape changes.
+ */
+export const STORAGE_SCHEMA_VERSION = 1;
+
+/**
+ * The kinds of document stored for each user.
+ */
+export type DocumentKind =
+  | 'recipes'
+  | 'ingredients'
+  | 'prices'
+  | 'currency'
+  | 'pantry'
+  | 'plannedBakes'
+  | 'bakeLog'
+  | 'collections'
+  | 'syncState';
+
+/**
+ * The stored form of a document: its records together with the schema version they were written in.
+ * Documents saved before versioning was introduced are bare arrays, which are treated as version 0.
+ */
+interface StoredDocument {
+  version: number;
+  records: unknown[];
+}
+
+/**
+ * A record that failed validation when it was loaded, kept aside so it can be recovered by hand.
+ */
+export interface QuarantinedRecord {
+  kind: DocumentKind;
+  /** Why the record was rejected. */
+  reason: string;
+  /** The record exactly as it was stored. */
+  data: unknown;
+  /** When the record was set aside, as an ISO 8601 string. */
+  quarantinedAt: string;
+}
+
+/**
+ * The result of loading a document.
+ */
+export interface LoadResult<T> {
+  /** The records that passed validation, migrated to the current version. */
+  records: T[];
+  /** The records that were set aside during this load. */
+  quarantined: QuarantinedRecord[];
+}
+
+/**
+ * Reads and writes one user's data through a storage backend.
+ */
+export interface RecipeRepository {
+  loadRecipes: () => Promise<LoadResult<Recipe>>;
+  saveRecipes: (recipes: Recipe[]) => Promise<void>;
+  loadIngredients: () => Promise<LoadResult<IngredientInfo>>;
+  saveIngredients: (ingredients: IngredientInfo[]) => Promise<void>;
+  loadPrices: () => Promise<LoadResult<IngredientPrice>>;
+  savePrices: (prices: IngredientPrice[]) => Promise<void>;
+  /** The currency document holds a single record: the ISO 4217 code prices are entered and costed in. */
+  loadCurrency: () => Promise<LoadResult<string>>;
+  saveCurrency: (currency: string) => Promise<void>;
+  loadPantry: () => Promise<LoadResult<PantryItem>>;
+  savePantry: (items: PantryItem[]) => Promise<void>;
+  loadPlannedBakes: () => Promise<LoadResult<PlannedBake>>;
+  savePlannedBakes: (plans: PlannedBake[]) => Promise<void>;
+  loadBakeLog: () => Promise<LoadResult<BakeLogEntry>>;
+  saveBakeLog: (entries: BakeLogEntry[]) => Promise<void>;
+  loadCollections: () => Promise<LoadResult<string>>;
+  saveCollections: (names: string[]) => Promise<void>;
+  loadSyncState: () => Promise<LoadResult<RecipeSyncState>>;
+  saveSyncState: (states: RecipeSyncState[]) => Promise<void>;
+  /** Lists every record quarantined so far, oldest first. */
+  loadQuarantine: () => Promise<QuarantinedRecord[]>;
+}
+
+/**
+ * Upgrades the records of a document by one version. MIGRATIONS[n] upgrades version n to version n + 1.
+ */
+type Migration = (records: unknown[], kind: DocumentKind) => unknown[];
+
+const MIGRATIONS: Migration[] = [
+  // 0 → 1: unversioned arrays are wrapped in a versioned document; the records themselves are unchanged.
+  (records) => records,
+];
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+const isIngredientArray = (value: unknown) =>
+  Array.isArray(value) && value.every((ing: any) => ing && typeof ing.name === 'string' && typeof ing.percentage === 'number');
+
+const isStoredComponent = (value: any): boolean =>
+  !!value && typeof value === 'object' &&
+  typeof value.name === 'string' &&
+  (value.kind === 'preferment' || value.kind === 'soaker') &&
+  typeof value.prefermentedFlourPercentage === 'number' &&
+  isIngredientArray(value.ingredients);
+
+/**
+ * Checks that a value has the shape of a recipe, so it is safe to render and calculate with.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a usable recipe.
+ */
+export const isStoredRecipe = (value: any): value is Recipe =>
+  !!value && typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.totalFlourGrams === 'number' &&
+  isIngredientArray(value.ingredients) &&
+  (value.components === undefined || (Array.isArray(value.components) && value.components.every(isStoredComponent))) &&
+  isOptionalNumber(value.levainHydration) &&
+  (value.revisions === undefined || Array.isArray(value.revisions)) &&
+  (value.tags === undefined || isStringArray(value.tags)) &&
+  (value.collections === undefined || isStringArray(value.collections)) &&
+  isOptionalNumber(value.updatedAt) &&
+  (value.derivedFrom === undefined || typeof value.derivedFrom === 'string');
+
+const isStoredIngredient = (value: any): value is IngredientInfo =>
+  !!value && typeof value === 'object' &&
+  typeof value.name === 'string' &&
+  INGREDIENT_CATEGORIES.includes(value.category) &&
+  isOptionalNumber(value.waterContent) &&
+  isOptionalNumber(value.density);
+
+const isStoredCurrency = (value: unknown): value is string => typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+const isStoredPrice = (value: any): value is IngredientPrice =>
+  !!value && typeof value === 'object' &&
+  typeof value.ingredientName === 'string' &&
+  typeof value.pricePerKg === 'number' &&
+  isStoredCurrency(value.currency) &&
+  typeof value.effectiveFrom === 'string';
+
+const isStoredPantryItem = (value: any): value is PantryItem =>
+  !!value && typeof value === 'object' &&
+  typeof value.ingredientName === 'string' &&
+  typeof value.onHandGrams === 'number' &&
+  isOptionalNumber(value.lowStockGrams);
+
+const isStoredPlannedBake = (value: any): value is PlannedBake =>
+  !!value && typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  typeof value.recipeId === 'string' &&
+  typeof value.doughWeightGrams === 'number';
+
+const isStoredBakeLogEntry = (value: any): value is BakeLogEntry =>
+  !!value && typeof value === 'object' &&
+  typeof value.id === 'string' &&
+  typeof value.recipeId === 'string' &&
+  typeof value.bakedAt === 'string' &&
+  typeof value.doughWeightGrams === 'number' &&
+  typeof value.rating === 'number' &&
+  isStringArray(value.photos);
+
+const isStoredCollectionName = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isStoredSyncState = (value: any): value is RecipeSyncState =>
+  !!value && typeof value === 'object' &&
+  typeof value.recipeId === 'string' &&
+  typeof value.revision === 'number' &&
+  isOptionalNumber(value.deletedAt);
+
+const VALIDATORS: Record<DocumentKind, (value: unknown) => boolean> = {
+  recipes: isStoredRecipe,
+  ingredients: isStoredIngredient,
+  prices: isStoredPrice,
+  currency: isStoredCurrency,
+  pantry: isStoredPantryItem,
+  plannedBakes: isStoredPlannedBake,
+  bakeLog: isStoredBakeLogEntry,
+  collections: isStoredCollectionName,
+  syncState: isStoredSyncState,
+};
+
+// The keys predate the repository, so data saved by earlier versions of the app is found and migrated.
+const getDocumentKey = (kind: DocumentKind, userId: string): string => {
+  switch (kind) {
+    case 'recipes': return `userRecipes-${userId}`;
+    case 'ingredients': return `userIngredients-${userId}`;
+    case 'prices': return `ingredientPrices-${userId}`;
+    case 'currency': return `priceCurrency-${userId}`;
+    case 'pantry': return `pantry-${userId}`;
+    case 'plannedBakes': return `plannedBakes-${userId}`;
+    case 'bakeLog': return `bakeLog-${userId}`;
+    case 'collections': return `recipeCollections-${userId}`;
+    case 'syncState': return `syncState-${userId}`;
+  }
+};
+
+const KIND_LABELS: Record<DocumentKind, string> = {
+  recipes: 'recipes',
+  ingredients: 'ingredients',
+  prices: 'ingredient prices',
+  currency: 'currency settings',
+  pantry: 'pantry items',
+  plannedBakes: 'planned bakes',
+  bakeLog: 'bake log entries',
+  collections: 'collections',
+  syncState: 'sync records',
+};
+
+const getQuarantineKey = (userId: string): string => `quarantine-${userId}`;
+
+// Reads the version and records of a stored value, or returns null if it isn't a document at all.
+const unwrapDocument = (stored: unknown): StoredDocument | null => {
+  if (Array.isArray(stored)) return { version: 0, records: stored };
+  if (stored && typeof stored === 'object') {
+    const { version, records } = stored as Partial<StoredDocument>;
+    if (typeof version === 'number' && Array.isArray(records)) return { version, records };
+  }
+  return null;
+};
+
+/**
+ * Creates the repository for a user's data.
+ * Loading a document migrates it to the current version, moves invalid records to the user's quarantine,
+ * and writes the cleaned document back. A document written by a newer version of the app is left untouched
+ * and cannot be overwritten until the app is updated.
+ * @param {string} userId - The user whose data to read and write.
+ * @param {StorageBackend} backend - Where the data is stored.
+ * @returns {RecipeRepository} The repository.
+ */
+export const createRecipeRepository = (userId: string, backend: StorageBackend): RecipeRepository => {
+  const protectedKinds = new Set<DocumentKind>();
+
+  const loadQuarantine = async (): Promise<QuarantinedRecord[]> => {
+    const document = unwrapDocument(await backend.read(getQuarantineKey(userId)));
+    return (document?.records ?? []) as QuarantinedRecord[];
+  };
+
+  // Documents may be loaded concurrently, so appends to the quarantine are queued to avoid losing one.
+  let quarantineQueue: Promise<void> = Promise.resolve();
+  const quarantine = (records: QuarantinedRecord[]): Promise<void> => {
+    if (records.length === 0) return Promise.resolve();
+    const append = async () => {
+      const existing = await loadQuarantine();
+      await backend.write(getQuarantineKey(userId), { version: STORAGE_SCHEMA_VERSION, records: [...existing, ...records] });
+    };
+    quarantineQueue = quarantineQueue.catch(() => undefined).then(append);
+    return quarantineQueue;
+  };
+
+  const save = async (kind: DocumentKind, records: unknown[]): Promise<void> => {
+    if (protectedKinds.has(kind)) {
+      throw new Error(`Your saved ${KIND_LABELS[kind]} were written by a newer version of the app. Reload to update before saving.`);
+    }
+    const document: StoredDocument = { version: STORAGE_SCHEMA_VERSION, records };
+    await backend.write(getDocumentKey(kind, userId), document);
+  };
+
+  const load = async <T>(kind: DocumentKind): Promise<LoadResult<T>> => {
+    const stored = await backend.read(getDocumentKey(kind, userId));
+    if (stored === undefined) return { records: [], quarantined: [] };
+
+    const quarantinedAt = new Date().toISOString();
+    const document = unwrapDocument(stored);
+    if (!document) {
+      // The whole document is unreadable (e.g., a truncated write). Keep it aside and start afresh.
+      const quarantined = [{ kind, reason: 'The stored document could not be read.', data: stored, quarantinedAt }];
+      await quarantine(quarantined);
+      await save(kind, []);
+      return { records: [], quarantined };
+    }
+    if (document.version > STORAGE_SCHEMA_VERSION) {
+      protectedKinds.add(kind);
+      throw new Error(`Your saved ${KIND_LABELS[kind]} were written by a newer version of the app (version ${document.version}). Reload to update.`);
+    }
+
+    let records = document.records;
+    for (let version = document.version; version < STORAGE_SCHEMA_VERSION; version++) {
+      records = MIGRATIONS[version](records, kind);
+    }
+
+    const isValid = VALIDATORS[kind];
+    const quarantined: QuarantinedRecord[] = records
+      .filter(record => !isValid(record))
+      .map(data => ({ kind, reason: 'The record is missing required fields or has fields of the wrong type.', data, quarantinedAt }));
+    const valid = records.filter(isValid) as T[];
+
+    if (quarantined.length > 0 || document.version !== STORAGE_SCHEMA_VERSION) {
+      await quarantine(quarantined);
+      await save(kind, valid);
+    }
+    return { records: valid, quarantined };
+  };
+
+  return {
+    loadRecipes: () => load<Recipe>('recipes'),
+    saveRecipes: (recipes) => save('recipes', recipes),
+    loadIngredients: () => load<IngredientInfo>('ingredients'),
+    saveIngredients: (ingredients) => save('ingredients', ingredients),
+    loadPrices: () => load<IngredientPrice>('prices'),
+    savePrices: (prices) => save('prices', prices),
+    loadCurrency: () => load<string>('currency'),
+    saveCurrency: (currency) => save('currency', [currency]),
+    loadPantry: () => load<PantryItem>('pantry'),
+    savePantry: (items) => save('pantry', items),
+    loadPlannedBakes: () => load<PlannedBake>('plannedBakes'),
+    savePlannedBakes: (plans) => save('plannedBakes', plans),
+    loadBakeLog: () => load<BakeLogEntry>('bakeLog'),
+    saveBakeLog: (entries) => save('bakeLog', entries),
+    loadCollections: () => load<string>('collections'),
+    saveCollections: (names) => save('collections', names),
+    loadSyncState: () => load<RecipeSyncState>('syncState'),
+    saveSyncState: (states) => save('syncState', states),
+    loadQuarantine,
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * @file Checks a recipe's formula for mistakes and for amounts outside what bakers typically use.
+ */
+
+import { Recipe, Ingredient, PercentageRange } from '../types';
+import {
+  SALT_INGREDIENT_NAME,
+  TYPICAL_SALT_RANGE,
+  TYPICAL_LEAVENING_RANGES,
+  FLOUR_HYDRATION_RANGES,
+  DEFAULT_FLOUR_HYDRATION_RANGE,
+} from '../constants';
+import { getIngredientInfo } from './ingredientCatalog';
+import { calculateDoughComposition, getOverallFormula, getSaltPercentage, isEnriched } from './recipeCalculations';
+
+/**
+ * Errors make the formula wrong and should be fixed before saving; warnings are unusual but may be intended.
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Identifies which check a validation issue comes from.
+ */
+export type ValidationCode =
+  | 'missing-flour'
+  | 'flour-total'
+  | 'prefermented-flour'
+  | 'duplicate-ingredient'
+  | 'salt-range'
+  | 'leavening-range'
+  | 'hydration-range';
+
+/**
+ * A single problem found in a recipe.
+ */
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  message: string;
+  /** The ingredient the issue concerns, if it concerns one. */
+  ingredientName?: string;
+  /** The component the issue is in, if it isn't in the final dough. */
+  componentName?: string;
+}
+
+// Flour percentages are often rounded to one decimal place, so allow them to be slightly off 100.
+const FLOUR_TOTAL_TOLERANCE = 0.5;
+
+const formatPercentage = (value: number): string => `${Number(value.toFixed(1))}%`;
+
+const formatRange = (range: PercentageRange): string => `${range.min}–${range.max}%`;
+
+const sumFlourPercentage = (ingredients: Ingredient[]): number => ingredients
+  .filter(ing => getIngredientInfo(ing.name)?.category === 'Flour')
+  .reduce((acc, ing) => acc + ing.percentage, 0);
+
+const findDuplicates = (ingredients: Ingredient[], componentName?: string): ValidationIssue[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const ing of ingredients) {
+    if (seen.has(ing.name)) duplicates.add(ing.name);
+    seen.add(ing.name);
+  }
+  return [...duplicates].map(name => ({
+    code: 'duplicate-ingredient',
+    severity: 'warning',
+    message: `${name} is listed more than once${componentName ? ` in ${componentName}` : ''}. Its percentages are added together; combine them into one line.`,
+    ingredientName: name,
+    componentName,
+  }));
+};
+
+const sortBySeverity = (issues: ValidationIssue[]): ValidationIssue[] =>
+  issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+
+// Each preferment needs flour that sums to 100%, and together they can't take all of the recipe's flour.
+const checkComponents = (recipe: Omit<Recipe, 'id' | 'isStandard'>): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const preferments = (recipe.components ?? []).filter(component => component.kind === 'preferment');
+  for (const component of recipe.components ?? []) {
+    issues.push(...findDuplicates(component.ingredients, component.name));
+  }
+  for (const component of preferments) {
+    const flourTotal = sumFlourPercentage(component.ingredients);
+    if (flourTotal <= 0) {
+      issues.push({ code: 'flour-total', severity: 'error', message: `${component.name} has no flour.`, componentName: component.name });
+    } else if (Math.abs(flourTotal - 100) > FLOUR_TOTAL_TOLERANCE) {
+      issues.push({
+        code: 'flour-total',
+        severity: 'error',
+        message: `The flours in ${component.name} add up to ${formatPercentage(flourTotal)}. They should add up to 100%.`,
+        componentName: component.name,
+      });
+    }
+    if (component.prefermentedFlourPercentage <= 0) {
+      issues.push({
+        code: 'prefermented-flour',
+        severity: 'error',
+        message: `${component.name} needs a share of the recipe's flour to preferment.`,
+        componentName: component.name,
+      });
+    }
+  }
+  const prefermentedTotal = preferments.reduce((acc, component) => acc + component.prefermentedFlourPercentage, 0);
+  if (prefermentedTotal >= 100) {
+    issues.push({
+      code: 'prefermented-flour',
+      severity: 'error',
+      message: `The preferments take ${formatPercentage(prefermentedTotal)} of the flour, leaving none for the final dough.`,
+    });
+  }
+  return issues;
+};
+
+/**
+ * Works out the true hydration a recipe's flour mix can plausibly take, weighting each flour's range by its share
+ * of the overall formula.
+ * @param {Recipe} recipe - The recipe.
+ * @returns {PercentageRange | null} The plausible hydration, or null if the recipe has no flour.
+ */
+export const getPlausibleHydrationRange = (recipe: Recipe): PercentageRange | null => {
+  const flours = getOverallFormula(recipe).filter(ing => ing.percentage > 0 && getIngredientInfo(ing.name)?.category === 'Flour');
+  const totalPercentage = flours.reduce((acc, ing) => acc + ing.percentage, 0);
+  if (totalPercentage <= 0) return null;
+
+  return flours.reduce((range, ing) => {
+    const flourRange = FLOUR_HYDRATION_RANGES[ing.name] ?? DEFAULT_FLOUR_HYDRATION_RANGE;
+    const share = ing.percentage / totalPercentage;
+    return { min: range.min + flourRange.min * share, max: range.max + flourRange.max * share };
+  }, { min: 0, max: 0 });
+};
+
+/**
+ * Checks a recipe's formula. The flour must be present and sum to 100%, and each ingredient should be listed once,
+ * in the final dough and in each component. Salt, leavening and true hydration are compared with the amounts
+ * bakers typically use.
+ * @param {Omit<Recipe, 'id' | 'isStandard'>} recipe - The recipe to check, which may not have been saved yet.
+ * @returns {ValidationIssue[]} The problems found, errors first. Empty if the recipe looks sound.
+ */
+export const validateRecipe = (recipe: Omit<Recipe, 'id' | 'isStandard'>): ValidationIssue[] => {
+  const fullRecipe: Recipe = { ...recipe, id: '' };
+
+  const issues: ValidationIssue[] = [...findDuplicates(recipe.ingredients), ...checkComponents(recipe)];
+
+  const flourTotal = sumFlourPercentage(recipe.ingredients);
+  const doughLabel = recipe.components?.length ? 'final dough' : 'recipe';
+  if (flourTotal <= 0) {
+    issues.push({ code: 'missing-flour', severity: 'error', message: `The ${doughLabel} has no flour. Baker's percentages are relative to the flour, so add at least one.` });
+    return sortBySeverity(issues);
+  }
+  if (Math.abs(flourTotal - 100) > FLOUR_TOTAL_TOLERANCE) {
+    issues.push({
+      code: 'flour-total',
+      severity: 'error',
+      message: `The flours in the ${doughLabel} add up to ${formatPercentage(flourTotal)}. They should add up to 100%.`,
+    });
+  }
+
+  const salt = getSaltPercentage(fullRecipe);
+  if (salt < TYPICAL_SALT_RANGE.min || salt > TYPICAL_SALT_RANGE.max) {
+    issues.push({
+      code: 'salt-range',
+      severity: 'warning',
+      message: salt === 0
+        ? 'The recipe has no salt.'
+        : `Salt is ${formatPercentage(salt)} of the total flour. Bread usually has ${formatRange(TYPICAL_SALT_RANGE)}.`,
+      ingredientName: SALT_INGREDIENT_NAME,
+    });
+  }
+
+  const overallFormula = getOverallFormula(fullRecipe);
+  for (const [name, range] of Object.entries(TYPICAL_LEAVENING_RANGES)) {
+    const percentage = overallFormula.find(ing => ing.name === name)?.percentage ?? 0;
+    if (percentage > 0 && (percentage < range.min || percentage > range.max)) {
+      issues.push({
+        code: 'leavening-range',
+        severity: 'warning',
+        message: `${name} at ${formatPercentage(percentage)} is outside the usual ${formatRange(range)}.`,
+        ingredientName: name,
+      });
+    }
+  }
+
+  const hydrationRange = getPlausibleHydrationRange(fullRecipe);
+  const { hydration } = calculateDoughComposition(fullRecipe);
+  // Fat and sugar soften enriched doughs, so they can be much drier than lean ones.
+  const isTooDry = hydrationRange && hydration < hydrationRange.min && !isEnriched(fullRecipe);
+  const isTooWet = hydrationRange && hydration > hydrationRange.max;
+  if (hydrationRange && (isTooDry || isTooWet)) {
+    issues.push({
+      code: 'hydration-range',
+      severity: 'warning',
+      message: `A true hydration of ${formatPercentage(hydration)} is ${isTooWet ? 'very high' : 'very low'} for this flour mix. ` +
+        `Expect about ${hydrationRange.min.toFixed(0)}–${hydrationRange.max.toFixed(0)}%.`,
+    });
+  }
+
+  return sortBySeverity(issues);
+};
+
+/**
+ * Determines whether any of the issues is an error.
+ * @param {ValidationIssue[]} issues - The issues found by validateRecipe.
+ * @returns {boolean} True if the recipe has errors.
+ */
+export const hasValidationErrors = (issues: ValidationIssue[]): boolean => issues.some(issue => issue.severity === 'error');
@@ -0,0 +1,130 @@
+/**
+ * @file Key-value storage backends for the recipe repository: localStorage and IndexedDB.
+ */
+
+/**
+ * A place to persist JSON-compatible documents by key. Values are read back as stored, or as the raw
+ * text when a stored document can no longer be parsed, so the caller can decide what to do with it.
+ */
+export interface StorageBackend {
+  /** A short name for messages (e.g., 'localStorage'). */
+  readonly name: string;
+  /** Reads a document, resolving to undefined if nothing is stored under the key. */
+  read: (key: string) => Promise<unknown>;
+  /** Writes a document, replacing whatever was stored under the key. */
+  write: (key: string, value: unknown) => Promise<void>;
+}
+
+/**
+ * Creates a backend that stores documents as JSON strings in localStorage.
+ * localStorage is limited to a few megabytes per origin, so writes can fail once photos accumulate.
+ * @returns {StorageBackend} The localStorage backend.
+ */
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localStorage',
+  read: async (key) => {
+    const text = localStorage.getItem(key);
+    if (text === null) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  },
+  write: async (key, value) => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+        throw new Error("Browser storage is full. Remove some bake log photos or export and delete old recipes.");
+      }
+      throw err;
+    }
+  },
+});
+
+const DATABASE_VERSION = 1;
+const DOCUMENT_STORE = 'documents';
+
+const openDatabase = (databaseName: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(databaseName, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DOCUMENT_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("The recipe database is in use by another tab. Close other tabs and reload."));
+  });
+
+/**
+ * Determines whether IndexedDB can be used in this browser (it is unavailable in some private browsing modes).
+ * @returns {boolean} True if IndexedDB is present.
+ */
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Creates a backend that stores documents in an IndexedDB object store, which has far more room than localStorage.
+ * The database is opened on first use.
+ * @param {string} [databaseName] - The IndexedDB database name.
+ * @returns {StorageBackend} The IndexedDB backend.
+ */
+export const createIndexedDbBackend = (databaseName: string = 'bread-recipes'): StorageBackend => {
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    if (!database) {
+      database = openDatabase(databaseName);
+      // Allow a later call to retry if opening failed.
+      database.catch(() => { database = null; });
+    }
+    return database;
+  };
+
+  return {
+    name: 'IndexedDB',
+    read: async (key) => {
+      const db = await getDatabase();
+      return new Promise((resolve, reject) => {
+        const request = db.transaction(DOCUMENT_STORE, 'readonly').objectStore(DOCUMENT_STORE).get(key);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    },
+    write: async (key, value) => {
+      const db = await getDatabase();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction(DOCUMENT_STORE, 'readwrite');
+        transaction.objectStore(DOCUMENT_STORE).put(value, key);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error("The write to IndexedDB was aborted."));
+      });
+    },
+  };
+};
+
+/**
+ * Wraps a backend so that documents it doesn't have yet are read from an older backend instead.
+ * Writes only go to the primary backend, so data moves across the first time it is saved.
+ * @param {StorageBackend} primary - The backend to read from and write to.
+ * @param {StorageBackend} fallback - The backend holding data written before the primary was introduced.
+ * @returns {StorageBackend} The combined backend.
+ */
+export const withFallback = (primary: StorageBackend, fallback: StorageBackend): StorageBackend => ({
+  name: primary.name,
+  read: async (key) => {
+    const value = await primary.read(key);
+    return value === undefined ? fallback.read(key) : value;
+  },
+  write: primary.write,
+});
+
+/**
+ * Chooses the best available backend: IndexedDB, carrying over anything previously saved in localStorage,
+ * or localStorage alone where IndexedDB is unavailable.
+ * @returns {StorageBackend} The backend to use.
+ */
+export const createDefaultBackend = (): StorageBackend =>
+  isIndexedDbAvailable()
+    ? withFallback(createIndexedDbBackend(), createLocalStorageBackend())
+    : createLocalStorageBackend();
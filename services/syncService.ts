@@ -0,0 +1,161 @@
+/**
+ * @file Syncs a user's recipe library with the self-hosted sync server, when one is configured.
+ */
+
+import { Recipe, RecipeSyncState, SyncedRecipeRecord } from '../types';
+import { getRecipeCreatedAt } from './recipeLibrary';
+
+const SYNC_SERVER_URL = (process.env.SYNC_SERVER_URL ?? '').replace(/\/+$/, '');
+
+/**
+ * Determines whether a sync server has been configured (SYNC_SERVER_URL in .env.local).
+ * @returns {boolean} True if the library should be synced.
+ */
+export const isSyncConfigured = (): boolean => SYNC_SERVER_URL !== '';
+
+/**
+ * The changes a sync makes to the local library.
+ */
+export interface SyncResult {
+  /** Recipes to add or replace locally, as held by the server. */
+  upserts: Recipe[];
+  /** Ids of recipes that were deleted on another device. */
+  removedIds: string[];
+  /** The sync state to remember for next time. */
+  syncStates: RecipeSyncState[];
+}
+
+/**
+ * Thrown when the sync server can't be reached, so callers can carry on offline.
+ */
+export class SyncOfflineError extends Error {
+  constructor() {
+    super("The sync server can't be reached. Changes are kept on this device and will sync later.");
+    this.name = 'SyncOfflineError';
+  }
+}
+
+/**
+ * Thrown when the server rejects the user's ID token, usually because it has expired and sign-in must be renewed.
+ */
+export class SyncAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncAuthError';
+  }
+}
+
+const request = async (method: string, path: string, idToken: string, body?: unknown): Promise<{ status: number; data: any }> => {
+  let response: Response;
+  try {
+    response = await fetch(`${SYNC_SERVER_URL}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${idToken}`,
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new SyncOfflineError();
+  }
+  const data = await response.json().catch(() => null);
+  if (response.status === 401) {
+    throw new SyncAuthError(data?.error ?? 'The sync server did not accept the sign-in.');
+  }
+  if (!response.ok && response.status !== 409) {
+    throw new Error(data?.error ?? `The sync server responded with ${response.status}.`);
+  }
+  return { status: response.status, data };
+};
+
+/**
+ * When a local recipe was last changed. Recipes saved before change times were recorded fall back
+ * to their creation time, so any copy already on the server wins.
+ */
+const getLocalUpdatedAt = (recipe: Recipe): number => recipe.updatedAt ?? getRecipeCreatedAt(recipe) ?? 0;
+
+/**
+ * Brings the local library and the server into agreement.
+ * Each recipe is compared with the server's record: the side changed most recently wins (last write wins),
+ * and the server's revision numbers show whether another device has written since this one last synced.
+ * Deletions made on this device are sent as tombstones recorded in the sync state.
+ * @param {string} idToken - The signed-in user's ID token; the server syncs the library of the user it names.
+ * @param {Recipe[]} localRecipes - The user's own recipes (not the standard ones).
+ * @param {RecipeSyncState[]} syncStates - What this device remembers from the previous sync.
+ * @returns {Promise<SyncResult>} The changes to apply locally.
+ * @throws {SyncOfflineError} If the server can't be reached.
+ * @throws {SyncAuthError} If the server rejects the ID token.
+ */
+export const syncRecipes = async (idToken: string, localRecipes: Recipe[], syncStates: RecipeSyncState[]): Promise<SyncResult> => {
+  const basePath = '/api/recipes';
+  const { data } = await request('GET', basePath, idToken);
+  const serverRecords = new Map<string, SyncedRecipeRecord>((data.records as SyncedRecipeRecord[]).map(r => [r.id, r]));
+  const localById = new Map(localRecipes.map(r => [r.id, r]));
+  const statesById = new Map(syncStates.map(s => [s.recipeId, s]));
+
+  const result: SyncResult = { upserts: [], removedIds: [], syncStates: [] };
+  const takeServer = (record: SyncedRecipeRecord) => {
+    if (record.recipe) {
+      result.upserts.push({ ...record.recipe, updatedAt: record.updatedAt });
+      result.syncStates.push({ recipeId: record.id, revision: record.revision });
+    } else if (localById.has(record.id)) {
+      result.removedIds.push(record.id);
+    }
+  };
+  const push = async (id: string, recipe: Recipe | null, updatedAt: number, server?: SyncedRecipeRecord) => {
+    const body = { recipe, baseRevision: statesById.get(id)?.revision, updatedAt };
+    const { status, data: record } = !server
+      ? await request('POST', basePath, idToken, body)
+      : await request(recipe ? 'PUT' : 'DELETE', `${basePath}/${encodeURIComponent(id)}`, idToken, body);
+    if (status === 409) {
+      // A create that raced with another device is retried on the next sync; otherwise the server's copy won.
+      if (server) takeServer(record);
+    } else if (recipe) {
+      result.syncStates.push({ recipeId: id, revision: record.revision });
+    }
+  };
+
+  const ids = new Set([...localById.keys(), ...statesById.keys(), ...serverRecords.keys()]);
+  for (const id of ids) {
+    const local = localById.get(id);
+    const state = statesById.get(id);
+    const server = serverRecords.get(id);
+
+    if (local) {
+      const localUpdatedAt = getLocalUpdatedAt(local);
+      if (!server || localUpdatedAt > server.updatedAt) {
+        await push(id, local, localUpdatedAt, server);
+      } else if (state && server.revision === state.revision && localUpdatedAt === server.updatedAt) {
+        result.syncStates.push(state);
+      } else {
+        takeServer(server);
+      }
+    } else if (state?.deletedAt !== undefined) {
+      if (server?.recipe && state.deletedAt > server.updatedAt) {
+        await push(id, null, state.deletedAt, server);
+      } else if (server?.recipe) {
+        // The recipe was changed elsewhere after it was deleted here, so the change wins.
+        takeServer(server);
+      }
+    } else if (server?.recipe) {
+      takeServer(server);
+    }
+  }
+  return result;
+};
+
+/**
+ * Records that a recipe was deleted on this device, so the deletion reaches the server on the next sync.
+ * @param {RecipeSyncState[]} syncStates - The current sync state.
+ * @param {string} recipeId - The deleted recipe.
+ * @param {number} [deletedAt] - When it was deleted.
+ * @returns {RecipeSyncState[]} The updated sync state.
+ */
+export const markRecipeDeleted = (syncStates: RecipeSyncState[], recipeId: string, deletedAt: number = Date.now()): RecipeSyncState[] => {
+  const existing = syncStates.find(s => s.recipeId === recipeId);
+  return [
+    ...syncStates.filter(s => s.recipeId !== recipeId),
+    { recipeId, revision: existing?.revision ?? 0, deletedAt },
+  ];
+};
@@ -0,0 +1,133 @@
+/**
+ * @file Converts recipe amounts between metric, imperial and US volume units.
+ */
+
+import { WeightUnit, VolumeUnit, MeasurementUnit } from '../types';
+import { getIngredientInfo } from './ingredientCatalog';
+
+/**
+ * The weight units offered in the recipe display toggle, in display order.
+ */
+export const WEIGHT_UNITS: WeightUnit[] = ['g', 'kg', 'oz', 'lb'];
+
+const GRAMS_PER_WEIGHT_UNIT: Record<WeightUnit, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.349523125,
+  lb: 453.59237,
+};
+
+// US customary measures.
+const MILLILITRES_PER_VOLUME_UNIT: Record<VolumeUnit, number> = {
+  cup: 236.5882365,
+  tbsp: 14.78676478,
+  tsp: 4.92892159,
+};
+
+// The number of decimal places shown for each weight unit.
+const WEIGHT_UNIT_DECIMALS: Record<WeightUnit, number> = {
+  g: 1,
+  kg: 3,
+  oz: 2,
+  lb: 3,
+};
+
+/**
+ * Written forms of each unit, as they appear in pasted recipes. Matching is case-insensitive.
+ */
+const UNIT_ALIASES: Record<MeasurementUnit, string[]> = {
+  g: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'],
+  kg: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'],
+  oz: ['oz', 'ounce', 'ounces'],
+  lb: ['lb', 'lbs', 'pound', 'pounds'],
+  cup: ['cup', 'cups'],
+  tbsp: ['tbsp', 'tbs', 'tablespoon', 'tablespoons'],
+  tsp: ['tsp', 'teaspoon', 'teaspoons'],
+};
+
+const aliasToUnit = new Map<string, MeasurementUnit>(
+  (Object.entries(UNIT_ALIASES) as [MeasurementUnit, string[]][])
+    .flatMap(([unit, aliases]) => aliases.map(alias => [alias, unit] as [string, MeasurementUnit]))
+);
+
+/**
+ * A regular expression source matching any unit alias, longest first so that e.g. 'grams' wins over 'g'.
+ */
+export const UNIT_ALIAS_PATTERN = [...aliasToUnit.keys()].sort((a, b) => b.length - a.length).join('|');
+
+/**
+ * Resolves a written unit (e.g., 'Tablespoons', 'lbs') to a measurement unit.
+ * @param {string} text - The unit as written.
+ * @returns {MeasurementUnit | undefined} The unit, or undefined if it is not recognized.
+ */
+export const parseUnit = (text: string): MeasurementUnit | undefined => aliasToUnit.get(text.toLowerCase());
+
+const isWeightUnit = (unit: MeasurementUnit): unit is WeightUnit => unit in GRAMS_PER_WEIGHT_UNIT;
+
+/**
+ * Converts an amount of an ingredient to grams.
+ * @param {number} value - The amount in the given unit.
+ * @param {MeasurementUnit} unit - The unit of the amount.
+ * @param {string} ingredientName - The ingredient, whose density is used for volume units.
+ * @returns {number | null} The weight in grams, or null if a volume can't be converted because the ingredient has no known density.
+ */
+export const convertToGrams = (value: number, unit: MeasurementUnit, ingredientName: string): number | null => {
+  if (isWeightUnit(unit)) {
+    return value * GRAMS_PER_WEIGHT_UNIT[unit];
+  }
+  const density = getIngredientInfo(ingredientName)?.density;
+  if (!density) return null;
+  return value * MILLILITRES_PER_VOLUME_UNIT[unit] * density;
+};
+
+/**
+ * Converts a weight in grams to the given weight unit.
+ * @param {number} grams - The weight in grams.
+ * @param {WeightUnit} unit - The target unit.
+ * @returns {number} The weight in the target unit.
+ */
+export const convertFromGrams = (grams: number, unit: WeightUnit): number => grams / GRAMS_PER_WEIGHT_UNIT[unit];
+
+/**
+ * Formats a weight in grams for display in the given unit, with a precision suited to that unit.
+ * @param {number} grams - The weight in grams.
+ * @param {WeightUnit} unit - The unit to display.
+ * @returns {string} The formatted number, without the unit label.
+ */
+export const formatWeight = (grams: number, unit: WeightUnit): string =>
+  convertFromGrams(grams, unit).toFixed(WEIGHT_UNIT_DECIMALS[unit]);
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '¼': 0.25, '½': 0.5, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3, '⅛': 0.125,
+};
+
+/**
+ * A regular expression source matching a quantity: a number with digit grouping ('1,000'), a decimal ('2.5', '2,5'),
+ * a fraction ('1/2', '½') or a mixed number ('1 1/2', '1½'). A comma followed by three digits groups thousands;
+ * followed by one or two it is a decimal comma.
+ */
+export const QUANTITY_PATTERN =
+  '\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d*\\s?[¼½¾⅓⅔⅛]|\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?(?![\\d,])|\\d+(?:\\.\\d+|,\\d{1,2}(?!\\d))?';
+
+const GROUPED_NUMBER_PATTERN = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+/**
+ * Parses a quantity matched by QUANTITY_PATTERN into a number.
+ * @param {string} text - The quantity as written.
+ * @returns {number} The numeric value.
+ */
+export const parseQuantity = (text: string): number => {
+  let total = 0;
+  for (const part of text.trim().split(/\s+/)) {
+    const fraction = part.match(/^(\d*)([¼½¾⅓⅔⅛])$/);
+    if (fraction) {
+      total += Number(fraction[1] || 0) + UNICODE_FRACTIONS[fraction[2]];
+    } else if (part.includes('/')) {
+      const [numerator, denominator] = part.split('/').map(Number);
+      total += denominator ? numerator / denominator : 0;
+    } else {
+      total += Number(GROUPED_NUMBER_PATTERN.test(part) ? part.replace(/,/g, '') : part.replace(',', '.'));
+    }
+  }
+  return total;
+};
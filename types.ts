@@ -7,12 +7,37 @@
  */
 export type IngredientCategory = 'Flour' | 'Liquid' | 'Leavening' | 'Enrichment' | 'Flavor' | 'Inclusion';
 
+/**
+ * Units of weight that recipe amounts can be entered and displayed in.
+ */
+export type WeightUnit = 'g' | 'kg' | 'oz' | 'lb';
+
+/**
+ * Units of volume that recipe amounts can be entered in. Converting them to grams requires the ingredient's density.
+ */
+export type VolumeUnit = 'cup' | 'tbsp' | 'tsp';
+
+/**
+ * Any unit a recipe amount can be measured in.
+ */
+export type MeasurementUnit = WeightUnit | VolumeUnit;
+
 /**
  * Defines the structure for an ingredient's static information, including its name and category.
  */
 export interface IngredientInfo {
   name: string;
   category: IngredientCategory;
+  /** The fraction of the ingredient's weight that is water (e.g., 0.87 for milk). Omitted for ingredients treated as dry. */
+  waterContent?: number;
+  /** The ingredient's density in grams per millilitre, used to convert volume measures (cups, spoons) to grams. */
+  density?: number;
+  /** For flours, the protein content as a percentage of the flour's weight (e.g., 12.5). */
+  proteinPercentage?: number;
+  /** The increment, in grams, that scaled weights are rounded to in production mode. Defaults to 1g. */
+  scalingPrecisionGrams?: number;
+  /** A flag to distinguish entries from the user's own ingredient catalog from the built-in ingredients. */
+  isCustom?: boolean;
 }
 
 /**
@@ -23,6 +48,28 @@ export interface Ingredient {
   percentage: number;
 }
 
+/**
+ * Whether a sub-formula is a preferment (a poolish, biga or levain build, which ferments part of the flour ahead of
+ * the final dough) or a soaker (grains or seeds steeped in water, with no flour).
+ */
+export type RecipeComponentKind = 'preferment' | 'soaker';
+
+/**
+ * A named sub-formula that is prepared separately and then mixed into the final dough.
+ */
+export interface RecipeComponent {
+  /** The name shown on the component's build table (e.g., 'Poolish' or 'Seed Soaker'). */
+  name: string;
+  kind: RecipeComponentKind;
+  /** For preferments, the share of the recipe's overall flour that is fermented in this component. Ignored for soakers. */
+  prefermentedFlourPercentage: number;
+  /**
+   * The component's ingredients. A preferment's percentages are relative to its own flour, so its flours sum to 100;
+   * a soaker's are relative to the recipe's overall flour.
+   */
+  ingredients: Ingredient[];
+}
+
 /**
  * Defines the structure for a complete bread recipe.
  */
@@ -33,12 +80,168 @@ export interface Recipe {
   name: string;
   /** A brief summary of the recipe's characteristics. */
   description: string;
-  /** The total weight of all flour ingredients in grams. This is the baseline for all baker's percentages. */
+  /**
+   * The total weight of all flour ingredients in grams. This is the baseline for all baker's percentages.
+   * When the recipe has components, it is the flour added in the final dough.
+   */
   totalFlourGrams: number;
-  /** An array of ingredients that make up the recipe. */
+  /** An array of ingredients that make up the recipe (the final dough, when the recipe has components). */
   ingredients: Ingredient[];
+  /** Preferments and soakers prepared ahead and mixed into the final dough. */
+  components?: RecipeComponent[];
   /** A flag to distinguish standard, read-only recipes from user-saved, editable recipes. */
   isStandard?: boolean;
+  /** The hydration of the Sourdough Levain as a percentage (water / flour * 100). Defaults to 100 when omitted. */
+  levainHydration?: number;
+  /** Snapshots of the recipe taken each time it was saved, oldest first. */
+  revisions?: RecipeRevision[];
+  /** Free-form labels such as 'pizza' or 'wholesale', stored in lower case. */
+  tags?: string[];
+  /** The names of the collections the recipe belongs to. */
+  collections?: string[];
+  /** When the recipe was last changed, in milliseconds since the Unix epoch. Used to resolve sync conflicts. */
+  updatedAt?: number;
+  /** The id of the recipe this one was copied from, e.g. a standard recipe saved as the user's own copy. */
+  derivedFrom?: string;
+}
+
+/**
+ * The formula-related content of a recipe, as captured in a revision. Tags, collections and the recipe's origin
+ * organize the recipe rather than describe it, so they aren't versioned.
+ */
+export type RecipeSnapshot = Omit<Recipe, 'id' | 'isStandard' | 'revisions' | 'tags' | 'collections' | 'updatedAt' | 'derivedFrom'>;
+
+/**
+ * A timestamped snapshot of a recipe, recorded when the recipe was saved.
+ */
+export interface RecipeRevision {
+  /** When the revision was saved, in milliseconds since the Unix epoch. */
+  savedAt: number;
+  /** The recipe's content at that time. */
+  snapshot: RecipeSnapshot;
+}
+
+/**
+ * The change in a single ingredient's baker's percentage between two revisions.
+ */
+export interface IngredientChange {
+  name: string;
+  /** The percentage in the older revision, or null if the ingredient was added. */
+  fromPercentage: number | null;
+  /** The percentage in the newer revision, or null if the ingredient was removed. */
+  toPercentage: number | null;
+}
+
+/**
+ * A record of one bake of a recipe, kept in the recipe's bake journal.
+ */
+export interface BakeLogEntry {
+  /** A unique identifier for the entry (e.g., 'bake-1678886400000'). */
+  id: string;
+  /** The id of the recipe that was baked. */
+  recipeId: string;
+  /** When the bake took place, as an ISO 8601 string. */
+  bakedAt: string;
+  /** The total dough weight mixed, in grams. */
+  doughWeightGrams: number;
+  /** The room temperature in °C. */
+  roomTemperatureC?: number;
+  /** The dough temperature after mixing in °C. */
+  doughTemperatureC?: number;
+  /** The length of bulk fermentation in minutes. */
+  bulkMinutes?: number;
+  /** The length of the final proof in minutes. */
+  proofMinutes?: number;
+  /** A free-text description of the oven temperatures, steam and timings used. */
+  ovenProfile: string;
+  /** The baker's rating of the result, from 1 to 5. */
+  rating: number;
+  /** Free-text notes about the bake. */
+  notes: string;
+  /** Photos of the bake, stored locally as data URLs. */
+  photos: string[];
+}
+
+/**
+ * A price the user paid for an ingredient. Prices are never overwritten; each change adds an entry, so the history
+ * can be used to cost bakes at the prices that applied when they were made.
+ */
+export interface IngredientPrice {
+  ingredientName: string;
+  /** The price of one kilogram of the ingredient. */
+  pricePerKg: number;
+  /** The ISO 4217 code of the currency the price is in (e.g., 'EUR'). */
+  currency: string;
+  /** When the price took effect, as an ISO 8601 string. */
+  effectiveFrom: string;
+}
+
+/**
+ * How much of an ingredient the baker has on hand.
+ */
+export interface PantryItem {
+  ingredientName: string;
+  /** The amount in stock, in grams. */
+  onHandGrams: number;
+  /** Restock when the amount left would fall below this many grams. Omitted if the ingredient has no threshold. */
+  lowStockGrams?: number;
+}
+
+/**
+ * A bake the baker intends to make, used to check stock and build the shopping list.
+ */
+export interface PlannedBake {
+  /** A unique identifier for the plan (e.g., 'plan-1678886400000'). */
+  id: string;
+  /** The id of the recipe to bake. */
+  recipeId: string;
+  /** The total dough weight to mix, in grams. */
+  doughWeightGrams: number;
+}
+
+/**
+ * A user recipe as held by the sync server.
+ */
+export interface SyncedRecipeRecord {
+  /** The recipe's id. */
+  id: string;
+  /** The recipe, or null once it has been deleted. Deletions are kept so other devices learn about them. */
+  recipe: Recipe | null;
+  /** Incremented by the server each time it accepts a change to the recipe. */
+  revision: number;
+  /** When the accepted change was made, in milliseconds since the Unix epoch. */
+  updatedAt: number;
+}
+
+/**
+ * What this device knows about a recipe's last successful sync.
+ */
+export interface RecipeSyncState {
+  recipeId: string;
+  /** The server revision this device last saw or wrote. */
+  revision: number;
+  /** When the recipe was deleted on this device, if the deletion hasn't reached the server yet. */
+  deletedAt?: number;
+}
+
+/**
+ * The stages of a bake, in the order they happen.
+ */
+export type ScheduleStageId = 'levainBuild' | 'autolyse' | 'mix' | 'bulk' | 'shape' | 'coldRetard' | 'proof' | 'bake';
+
+/**
+ * A single stage of a fermentation schedule, with its clock times.
+ */
+export interface ScheduleStage {
+  id: ScheduleStageId;
+  /** A human-readable name for the stage (e.g., 'Bulk Fermentation'). */
+  label: string;
+  /** How long the stage lasts, in minutes. Stages with a duration of 0 are skipped. */
+  durationMinutes: number;
+  /** When the stage starts. */
+  start: Date;
+  /** When the stage ends. */
+  end: Date;
 }
 
 /**
@@ -55,6 +258,31 @@ export interface User {
   picture: string;
 }
 
+/**
+ * The true flour and water content of a recipe, with the Sourdough Levain decomposed into its flour and water.
+ */
+export interface DoughComposition {
+  /** Flour from all flour ingredients plus the flour held in the levain, in grams. */
+  totalFlourGrams: number;
+  /** Water from all liquid ingredients (by water content) plus the water held in the levain, in grams. */
+  totalWaterGrams: number;
+  /** The true hydration as a percentage (totalWaterGrams / totalFlourGrams * 100). */
+  hydration: number;
+}
+
+/**
+ * A range of percentages, inclusive at both ends.
+ */
+export interface PercentageRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * How a recipe is leavened: with a sourdough levain, commercial yeast, both, or neither.
+ */
+export type LeaveningType = 'levain' | 'yeast' | 'hybrid' | 'none';
+
 /**
  * Defines the structure for nutritional information of a recipe serving.
  */
@@ -64,4 +292,25 @@ export interface NutritionInfo {
   fatGrams: number;
   carbohydrateGrams: number;
   fiberGrams: number;
-}
\ No newline at end of file
+}
+
+/**
+ * The nutritional content of an ingredient per 100g, used by the offline nutrition engine.
+ */
+export type NutrientProfile = NutritionInfo;
+
+/**
+ * The result of a nutrition calculation for a recipe serving.
+ */
+export interface NutritionReport {
+  /** The nutritional values for a single serving. */
+  nutrition: NutritionInfo;
+  /** The serving size the values were calculated for, in grams. */
+  servingSizeGrams: number;
+  /** The estimated weight of the baked loaf after water loss, in grams. */
+  bakedWeightGrams: number;
+  /** Ingredients that had no nutrient data and were left out of the totals. */
+  uncoveredIngredients: string[];
+  /** Ingredients whose nutrient data was estimated by the AI fallback. */
+  aiEstimatedIngredients: string[];
+}
@@ -6,7 +6,11 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SYNC_SERVER_URL': JSON.stringify(env.SYNC_SERVER_URL ?? ''),
+        'process.env.GOOGLE_CLIENT_ID': JSON.stringify(env.GOOGLE_CLIENT_ID ?? ''),
+        'process.env.AUTH_JWKS_URL': JSON.stringify(env.AUTH_JWKS_URL ?? ''),
+        'process.env.AUTH_JWKS': JSON.stringify(env.AUTH_JWKS ?? '')
       },
       resolve: {
         alias: {